@@ -0,0 +1,115 @@
+/**
+ * Batch knowledge-base impact check. Re-runs every saved report (JSON downloaded
+ * from the dashboard) in the given files and folders against the current rules and
+ * lists the patients whose actionable results changed.
+ *
+ *   npm run report-impact -- <report.json | folder>... [--all] [--json]
+ *
+ * --all also lists changes that are not actionable (evidence, Safe-result wording);
+ * --json prints the structured impact of every report instead of the summary.
+ */
+
+import { readFileSync, readdirSync, statSync } from 'node:fs';
+import path from 'node:path';
+import { DrugImpact, ReportImpact, assessReportImpact, readSavedReport } from '../src/lib/reportImpact';
+import { KNOWLEDGE_BASE } from '../src/lib/knowledgeBase';
+
+interface ScannedReport {
+    file: string;
+    impact: ReportImpact | null;
+    error: string | null;
+}
+
+// Report files in the given paths; folders are scanned recursively for .json files
+function listReports(paths: string[]): string[] {
+    return paths.flatMap(p => {
+        if (!statSync(p).isDirectory()) return [p];
+        return listReports(readdirSync(p).sort()
+            .map(name => path.join(p, name))
+            .filter(child => statSync(child).isDirectory() || child.endsWith('.json')));
+    });
+}
+
+function scan(file: string): ScannedReport {
+    let data: unknown;
+    try {
+        data = JSON.parse(readFileSync(file, 'utf8'));
+    } catch (error) {
+        return { file, impact: null, error: error instanceof Error ? error.message : String(error) };
+    }
+    const report = readSavedReport(data);
+    if (typeof report === 'string') return { file, impact: null, error: report };
+    return { file, impact: assessReportImpact(report), error: null };
+}
+
+// snake_case, like the /api/analyze response the reports come from
+function impactJson({ file, impact, error }: ScannedReport) {
+    return {
+        file,
+        error,
+        previous_version: impact?.previousVersion ?? null,
+        current_version: KNOWLEDGE_BASE.version,
+        samples: (impact?.samples ?? []).map(sample => ({
+            sample_id: sample.sampleId,
+            patient_id: sample.patientId,
+            actionable_changes: sample.actionableChanges,
+            drugs: sample.drugs.map(drug => ({
+                drug: drug.drug,
+                changed: drug.changed,
+                actionable: drug.actionable,
+                previous: drug.previous,
+                current: drug.current
+            }))
+        })),
+        notes: impact?.notes ?? []
+    };
+}
+
+function describeDrug(drug: DrugImpact): string[] {
+    const lines = [`    ${drug.drug}${drug.actionable ? '' : ' (not actionable)'}: ${drug.previous.risk}${drug.changed.includes('risk') ? ` -> ${drug.current.risk}` : ''}`];
+    for (const field of drug.changed.filter(f => f !== 'risk')) {
+        lines.push(`      ${field}: ${JSON.stringify(drug.previous[field])}`);
+        lines.push(`      ${' '.repeat(field.length)}  -> ${JSON.stringify(drug.current[field])}`);
+    }
+    return lines;
+}
+
+function main(args: string[]): number {
+    const paths = args.filter(a => !a.startsWith('--'));
+    if (paths.length === 0) {
+        console.error('Usage: npm run report-impact -- <report.json | folder>... [--all] [--json]');
+        return 1;
+    }
+    const scanned = listReports(paths).map(scan);
+
+    if (args.includes('--json')) {
+        console.log(JSON.stringify(scanned.map(impactJson), null, 4));
+        return 0;
+    }
+
+    const showAll = args.includes('--all');
+    console.log(`Knowledge base ${KNOWLEDGE_BASE.version} (${KNOWLEDGE_BASE.updated})\n`);
+    let affected = 0;
+    for (const { file, impact, error } of scanned) {
+        if (!impact) {
+            console.log(`${file}: could not be read (${error})`);
+            continue;
+        }
+        const samples = impact.samples.filter(s => s.actionableChanges > 0 || (showAll && s.drugs.some(d => d.changed.length > 0)));
+        if (impact.samples.some(s => s.actionableChanges > 0)) affected++;
+        for (const sample of samples) {
+            const who = [sample.patientId, sample.sampleId && `sample ${sample.sampleId}`].filter(Boolean).join(', ') || 'unknown patient';
+            console.log(`${file}: ${who}, issued under ${impact.previousVersion ?? 'an unrecorded version'}: ${sample.actionableChanges} actionable change(s)`);
+            for (const drug of sample.drugs.filter(d => d.actionable || (showAll && d.changed.length > 0))) {
+                describeDrug(drug).forEach(line => console.log(line));
+            }
+        }
+        if (samples.length > 0) impact.notes.forEach(note => console.log(`    note: ${note}`));
+    }
+
+    const unreadable = scanned.filter(s => !s.impact).length;
+    console.log(`\n${affected} of ${scanned.length} report(s) have actionable changes${unreadable > 0 ? `; ${unreadable} could not be read` : ''}.`);
+    return 0;
+}
+
+process.exitCode = main(process.argv.slice(2));
@@ -1,32 +1,82 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { parseVCF } from '@/lib/vcfParser';
-import { generatePharmacogenomicProfile, evaluateDrugRisk, DrugRiskAssessment, PatientProfile } from '@/lib/pgxRulesBase';
+import { parseGenomeBuild, ParsedVCF, GenomeBuild } from '@/lib/vcfParser';
+import { parseGenotypeStream } from '@/lib/rawGenotypeParser';
+import { DecompressionError, decompressIfGzipped } from '@/lib/compression';
+import { generatePharmacogenomicProfile, evaluateDrugRisk, isTargetedLocus, overlapsTargetedLocus, targetAlleles, DEFAULT_QUALITY_THRESHOLDS, CallQualityThresholds, DrugRiskAssessment, PatientProfile } from '@/lib/pgxRulesBase';
+import { alleleActivityValue } from '@/lib/phenotypes';
+import { AlleleFunction, referenceAllele, variantFunction } from '@/lib/starAlleles';
+import { parseHlaTyping } from '@/lib/hla';
+import { GuidelineCitation, KNOWLEDGE_BASE, KNOWN_DRUGS, getDrugGuideline } from '@/lib/knowledgeBase';
+import { DrugResolution, normalizeDrugName, resolveDrugName } from '@/lib/drugNames';
+import { Phenoconversion, phenoconvertProfile } from '@/lib/phenoconversion';
+import { estimateWarfarinDose, WarfarinAncestry, WarfarinCovariates } from '@/lib/warfarinDosing';
+import { calculateAdjustedDose, describeDoseGuidance, DoseCalculatorInput } from '@/lib/doseCalculator';
+import { PatientContext } from '@/lib/patientContext';
 import Groq from 'groq-sdk';
 
-const TARGET_DRUGS = [
-    'CODEINE', 'WARFARIN', 'CLOPIDOGREL', 'SIMVASTATIN', 'AZATHIOPRINE', 'FLUOROURACIL',
-    'AMIODARONE', 'CITALOPRAM', 'OMEPRAZOLE', 'PHENYTOIN'
+// Variant impact labels by allele function, most severe first; a variant takes the most severe allele carrying it
+const IMPACT_LABELS: [AlleleFunction, string][] = [
+    ['Risk allele', 'Risk_allele'],
+    ['No function', 'No_function'],
+    ['Decreased function', 'Reduced_function'],
+    ['Uncertain function', 'Uncertain_function'],
+    ['Increased function', 'Increased_function'],
+    ['Normal function', 'Normal_function']
 ];
 
-const MECHANISM_MAP: Record<string, string> = {
-    CODEINE: 'CYP2D6_activation',
-    WARFARIN: 'CYP2C9_clearance',
-    CLOPIDOGREL: 'CYP2C19_activation',
-    SIMVASTATIN: 'SLCO1B1_transport',
-    AZATHIOPRINE: 'TPMT_clearance',
-    FLUOROURACIL: 'DPYD_catabolism',
-    PHENYTOIN: 'CYP2C9_clearance',
-    CITALOPRAM: 'CYP2C19_clearance',
-    OMEPRAZOLE: 'CYP2C19_clearance',
-    AMIODARONE: 'CYP2C9_clearance'
-};
+// Attached to every report built from consumer genotyping array exports
+const ARRAY_COVERAGE_CAVEAT =
+    'Genotypes come from a direct-to-consumer SNP array export, not sequencing. Arrays only test a fixed set of positions: ' +
+    'pharmacogenomic variants that are not on the array are reported as not found rather than absent, copy-number and ' +
+    'structural variants (e.g. CYP2D6 deletions and duplications) are not detected, and array calls are not validated ' +
+    'for clinical use. Confirm actionable results with a clinical-grade test.';
+
+// Attached when an HLA-B risk allele was inferred from a tag SNP instead of typed
+const HLA_TAG_SNP_CAVEAT =
+    'HLA-B*57:01 and HLA-B*58:01 status was inferred from tag SNPs (rs2395029, rs9263726), which are in strong but ' +
+    'ancestry-dependent linkage with the risk alleles. Confirm with HLA-B typing before prescribing; supply typed ' +
+    'alleles in the "hla_b" field to use them directly.';
+
+// Validation codes that mean the header itself is unusable
+const FATAL_VALIDATION_CODES = ['MISSING_FILEFORMAT', 'MISSING_COLUMN_HEADER', 'INVALID_COLUMN_HEADER'];
 
 const groq = process.env.GROQ_API_KEY ? new Groq({ apiKey: process.env.GROQ_API_KEY }) : null;
 
 // Edge runtime to ensure it runs entirely without Node fs/disk.
 export const runtime = 'edge';
 
-async function generateExplanation(drug: string, assessment: DrugRiskAssessment, profile: PatientProfile) {
+// "CPIC guideline for ... (2021 update, 2021). Crews KR, et al. ... PMID 33387367"
+function formatCitation(source: GuidelineCitation): string {
+    const dated = [source.version, source.published].filter(Boolean).join(', ');
+    const references = source.literature.map(r => [r.citation, r.pmid && `PMID ${r.pmid}`].filter(Boolean).join(', '));
+    return [`${source.title}${dated ? ` (${dated})` : ''}`, ...references].join('. ');
+}
+
+// Response form of cited guidelines; absent fields are null
+function citationsJson(sources: GuidelineCitation[]) {
+    return sources.map(source => ({
+        id: source.id,
+        body: source.body,
+        title: source.title,
+        version: source.version ?? null,
+        published: source.published ?? null,
+        literature: source.literature.map(r => ({ citation: r.citation, pmid: r.pmid ?? null, doi: r.doi ?? null }))
+    }));
+}
+
+/**
+ * Stands in for the LLM explanation of every sample after the first, so a
+ * multi-sample VCF costs one LLM call per drug rather than one per sample and drug.
+ */
+function deferredExplanation(sampleId: string) {
+    const message = `AI explanations are generated for the first analysed sample only. Re-run with sample=${sampleId} to explain this sample's result.`;
+    return {
+        patient_friendly: message,
+        clinician_technical: message
+    };
+}
+
+async function generateExplanation(drug: string, assessment: DrugRiskAssessment, profile: PatientProfile, conversions: Phenoconversion[]) {
     if (!groq) {
         return {
             patient_friendly: "AI Explanation disabled: Missing GROQ API Key.",
@@ -34,7 +84,13 @@ async function generateExplanation(drug: string, assessment: DrugRiskAssessment,
         };
     }
 
-    const strictMechanism = MECHANISM_MAP[drug] || assessment.mechanism;
+    const strictMechanism = getDrugGuideline(drug)?.pathway || assessment.mechanism;
+    const otherGenes = assessment.genes
+        .filter(gene => gene !== assessment.gene)
+        .map(gene => `${gene} ${profile.genes[gene]?.diplotype ?? 'Unknown'} (${profile.genes[gene]?.phenotype ?? 'Indeterminate'})`);
+    const phenoconversions = conversions
+        .filter(c => c.applied)
+        .map(c => `${c.gene} genotypic ${c.genotypicPhenotype} -> effective ${c.phenotype} (${c.applied?.drug}, ${c.applied?.strength} ${c.applied?.effect})`);
 
     const prompt = `
 You are an expert clinical pharmacogenomics AI. 
@@ -44,11 +100,17 @@ Profile Data:
 - Gene: ${assessment.gene}
 - Diplotype: ${assessment.diplotype}
 - Phenotype: ${assessment.phenotype}
+- Additional Genes: ${otherGenes.join('; ') || 'None'}
+- Genes Driving Recommendation: ${assessment.drivingGenes.join(', ') || 'None'}
+- Phenoconversion (phenotypes above are the effective ones): ${phenoconversions.join('; ') || 'None'}
 - Activity Score: ${assessment.activityScore !== undefined ? assessment.activityScore : 'N/A'}
 - Mechanism: ${strictMechanism}
 - Risk Level: ${assessment.risk}
 - Recommendation: ${assessment.recommendation}
-- Evidence Citation: ${assessment.evidenceStrength}
+- Patient Context Changes (non-genetic; risk from genotype alone was ${assessment.geneticRisk}): ${assessment.contextFlags.map(f => `${f.condition} -> ${f.risk ?? 'advisory, risk unchanged'}`).join('; ') || 'None'}
+- Dose Guidance: ${assessment.doseGuidance ? describeDoseGuidance(assessment.doseGuidance) : 'None'}
+- Alternatives (checked against this profile): ${assessment.alternatives.map(a => `${a.drug} (${a.reason})`).join('; ') || 'None'}
+- Evidence Citation: ${assessment.evidenceStrength}; ${assessment.provenance.sources.map(formatCitation).join('; ') || 'None'}
 
 Ensure the terminology is strictly neutral and clinical. Do NOT use terms like 'fast metabolizer', 'better detox', 'strong metabolism'. Instead, use 'expected clearance', 'normal metabolizer', 'standard enzyme activity'.
 Do NOT include any non-evidence-based lifestyle advice regarding diet optimization, exercise, or hydration affecting clearance. Advice must remain medication-focused only.
@@ -86,165 +148,674 @@ Ensure valid JSON, without markdown blocks.
     }
 }
 
-export async function POST(req: NextRequest) {
-    try {
+interface AnalyzeInput {
+    vcf: ReadableStream<Uint8Array> | null;
+    field: (name: string) => string | null;
+}
+
+// Options of a raw-body upload: a JSON object of field names to values. Patient
+// details stay out of the URL, which ends up in hosting and proxy access logs.
+const OPTIONS_HEADER = 'x-analysis-options';
+
+/**
+ * Accepts either a multipart form (`vcf` file + fields) or a raw VCF request body
+ * with options in the X-Analysis-Options header. The raw form streams straight
+ * into the parser and is the one to use for whole-genome files. Returns an error
+ * message for a malformed options header.
+ */
+async function readAnalyzeInput(req: NextRequest): Promise<AnalyzeInput | string> {
+    const contentType = req.headers.get('content-type') || '';
+
+    if (contentType.includes('multipart/form-data')) {
         const formData = await req.formData();
         const file = formData.get('vcf') as File | null;
-        let drugsToAnalyze = TARGET_DRUGS;
+        return {
+            vcf: file ? file.stream() : null,
+            field: (name) => {
+                const value = formData.get(name);
+                return typeof value === 'string' ? value : null;
+            }
+        };
+    }
+
+    let options: unknown = {};
+    const header = req.headers.get(OPTIONS_HEADER);
+    if (header) {
+        try {
+            options = JSON.parse(header);
+        } catch {
+            return 'The X-Analysis-Options header must be a JSON object.';
+        }
+    }
+    if (typeof options !== 'object' || options === null || Array.isArray(options)) return 'The X-Analysis-Options header must be a JSON object.';
+    const fields = options as Record<string, unknown>;
+    return {
+        vcf: req.body,
+        field: (name) => {
+            const value = fields[name];
+            return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean' ? String(value) : null;
+        }
+    };
+}
+
+/**
+ * Reads the optional per-call quality thresholds (min_dp, min_gq, min_qual,
+ * ab_min, ab_max, require_pass). Returns an error message for malformed values.
+ */
+function readQualityThresholds(input: AnalyzeInput): CallQualityThresholds | string {
+    const thresholds: CallQualityThresholds = { ...DEFAULT_QUALITY_THRESHOLDS, alleleBalance: [...DEFAULT_QUALITY_THRESHOLDS.alleleBalance] };
+    const numeric: [string, (value: number) => void][] = [
+        ['min_dp', v => { thresholds.minDepth = v; }],
+        ['min_gq', v => { thresholds.minGenotypeQuality = v; }],
+        ['min_qual', v => { thresholds.minQual = v; }],
+        ['ab_min', v => { thresholds.alleleBalance[0] = v; }],
+        ['ab_max', v => { thresholds.alleleBalance[1] = v; }]
+    ];
+
+    for (const [name, apply] of numeric) {
+        const raw = input.field(name);
+        if (raw === null || raw.trim() === '') continue;
+        const value = Number(raw);
+        if (!Number.isFinite(value) || value < 0) return `"${name}" must be a non-negative number.`;
+        apply(value);
+    }
 
-        const requestedDrugs = formData.get('drugs');
+    const [abMin, abMax] = thresholds.alleleBalance;
+    if (abMin > abMax || abMax > 1) return '"ab_min" and "ab_max" must satisfy 0 <= ab_min <= ab_max <= 1.';
+
+    const requirePass = input.field('require_pass');
+    if (requirePass !== null) thresholds.requirePass = !['false', '0', 'no'].includes(requirePass.trim().toLowerCase());
+
+    return thresholds;
+}
+
+const ANCESTRIES: WarfarinAncestry[] = ['Asian', 'Black or African American', 'White', 'Other'];
+
+/**
+ * Reads the patient's current medications (comma separated) as canonical
+ * ingredient names; brand names (e.g. Paxil, Cordarone) count as the ingredients
+ * they contain and unknown names are kept as given.
+ */
+function readMedications(input: AnalyzeInput): string[] {
+    const medications = input.field('medications');
+    if (!medications) return [];
+    return [...new Set(medications.split(',').filter(m => m.trim() !== '').flatMap(m => {
+        const resolution = resolveDrugName(m);
+        return resolution.ingredients.length > 0 ? resolution.ingredients : [normalizeDrugName(m)];
+    }))];
+}
+
+/**
+ * Reads the optional body measurements (height_cm, weight_kg, bsa_m2) shared by
+ * the warfarin estimate and the dose calculator. Returns an error message for
+ * malformed values.
+ */
+function readBodySize(input: AnalyzeInput): Omit<DoseCalculatorInput, 'standardDose'> | string {
+    const body: Omit<DoseCalculatorInput, 'standardDose'> = {};
+    const fields: [string, keyof typeof body][] = [['height_cm', 'heightCm'], ['weight_kg', 'weightKg'], ['bsa_m2', 'bsaM2']];
+    for (const [name, key] of fields) {
+        const raw = input.field(name);
+        if (raw === null || raw.trim() === '') continue;
+        const value = Number(raw);
+        if (!Number.isFinite(value) || value <= 0) return `"${name}" must be a positive number.`;
+        body[key] = value;
+    }
+    return body;
+}
+
+/**
+ * Reads the optional non-genetic patient context (age, sex, weight_kg, pregnant,
+ * lactating, egfr). Returns an error message for malformed or contradictory values.
+ */
+function readPatientContext(input: AnalyzeInput, body: Omit<DoseCalculatorInput, 'standardDose'>): PatientContext | string {
+    const context: PatientContext = { weightKg: body.weightKg };
+
+    const numeric: [string, (value: number) => void][] = [
+        ['age', v => { context.ageYears = v; }],
+        ['egfr', v => { context.egfr = v; }]
+    ];
+    for (const [name, apply] of numeric) {
+        const raw = input.field(name);
+        if (raw === null || raw.trim() === '') continue;
+        const value = Number(raw);
+        if (!Number.isFinite(value) || value < 0) return `"${name}" must be a non-negative number.`;
+        apply(value);
+    }
+
+    const sex = input.field('sex')?.trim().toLowerCase();
+    if (sex) {
+        if (sex !== 'female' && sex !== 'male') return '"sex" must be "female" or "male".';
+        context.sex = sex;
+    }
+
+    for (const name of ['pregnant', 'lactating'] as const) {
+        const raw = input.field(name)?.trim().toLowerCase();
+        if (!raw) continue;
+        if (['true', '1', 'yes'].includes(raw)) context[name] = true;
+        else if (['false', '0', 'no'].includes(raw)) context[name] = false;
+        else return `"${name}" must be true or false.`;
+    }
+    if (context.sex === 'male' && (context.pregnant || context.lactating)) {
+        return '"pregnant" and "lactating" cannot be true when "sex" is male.';
+    }
+    return context;
+}
+
+/**
+ * Reads the optional warfarin dosing covariates (ancestry, with age from the
+ * patient context, the body size and the medication list). Returns null unless
+ * age, height and weight are all given, and an error message when ancestry is
+ * given without them or is unknown.
+ */
+function readWarfarinCovariates(input: AnalyzeInput, body: Omit<DoseCalculatorInput, 'standardDose'>, context: PatientContext, medications: string[]): WarfarinCovariates | null | string {
+    const ancestry = input.field('ancestry')?.trim();
+    if (context.ageYears === undefined || body.heightCm === undefined || body.weightKg === undefined) {
+        return ancestry ? 'Warfarin dose estimation needs "age", "height_cm" and "weight_kg".' : null;
+    }
+
+    let matchedAncestry: WarfarinAncestry | undefined;
+    if (ancestry) {
+        matchedAncestry = ANCESTRIES.find(a => a.toLowerCase() === ancestry.toLowerCase());
+        if (!matchedAncestry) return `"ancestry" must be one of ${ANCESTRIES.join(', ')}.`;
+    }
+
+    return {
+        ageYears: context.ageYears,
+        heightCm: body.heightCm,
+        weightKg: body.weightKg,
+        ancestry: matchedAncestry,
+        medications
+    };
+}
+
+/**
+ * Reads the intended standard daily doses for the dose calculator, given as
+ * comma-separated "drug:dose" pairs in each drug's dose basis (e.g.
+ * "Imuran:2.5, 5-FU:400" for 2.5 mg/kg azathioprine and 400 mg/m2 fluorouracil).
+ * Returns doses keyed by guideline drug, or an error message.
+ */
+function readStandardDoses(input: AnalyzeInput): Record<string, number> | string {
+    const raw = input.field('standard_doses');
+    const doses: Record<string, number> = {};
+    if (!raw) return doses;
+    for (const entry of raw.split(',').filter(e => e.trim() !== '')) {
+        const separator = entry.lastIndexOf(':');
+        const name = entry.slice(0, separator).trim();
+        const value = Number(entry.slice(separator + 1));
+        if (separator < 0 || name === '' || !Number.isFinite(value) || value <= 0) {
+            return `"standard_doses" entries must look like "drug:dose" with a positive dose (got "${entry.trim()}").`;
+        }
+        const analyzedAs = resolveDrugName(name).analyzedAs;
+        if (analyzedAs.length !== 1) return `"${name}" in "standard_doses" does not name a single drug with a guideline.`;
+        doses[analyzedAs[0]] = value;
+    }
+    return doses;
+}
+
+export async function POST(req: NextRequest) {
+    try {
+        const input = await readAnalyzeInput(req);
+        if (typeof input === 'string') {
+            return NextResponse.json({ error: 'Invalid analysis options', message: input }, { status: 400 });
+        }
+        let drugsToAnalyze = KNOWN_DRUGS;
+        let drugResolution: DrugResolution[] = [];
+
+        // Requested names resolve to the guideline drugs they fall under (brands, salts,
+        // abbreviations, combinations, prodrugs); names without a guideline are still
+        // analyzed so the response reports them as not covered
+        const requestedDrugs = input.field('drugs');
         if (requestedDrugs) {
-            drugsToAnalyze = (requestedDrugs as string).split(',').map(d => d.trim().toUpperCase());
+            drugResolution = requestedDrugs.split(',').filter(d => d.trim() !== '').map(d => resolveDrugName(d.trim()));
+            drugsToAnalyze = [...new Set(drugResolution.flatMap(r => {
+                if (r.analyzedAs.length > 0) return r.analyzedAs;
+                return r.ingredients.length > 0 ? r.ingredients : [normalizeDrugName(r.input)];
+            }))];
         }
 
-        if (!file) {
+        if (!input.vcf) {
             return NextResponse.json({ error: 'No VCF file provided.' }, { status: 400 });
         }
 
-        // Process entirely in memory
-        const arrayBuffer = await file.arrayBuffer();
-        const decoder = new TextDecoder('utf-8');
-        const vcfString = decoder.decode(arrayBuffer);
+        const qualityThresholds = readQualityThresholds(input);
+        if (typeof qualityThresholds === 'string') {
+            return NextResponse.json({ error: 'Invalid quality thresholds', message: qualityThresholds }, { status: 400 });
+        }
+
+        // Optional genome build override ("auto" or absent = detect from the VCF header)
+        const requestedBuild = input.field('build')?.trim();
+        let buildOverride: GenomeBuild | undefined;
+        if (requestedBuild && requestedBuild.toLowerCase() !== 'auto') {
+            const build = parseGenomeBuild(requestedBuild);
+            if (!build) {
+                return NextResponse.json(
+                    {
+                        error: 'Unknown genome build',
+                        message: `Genome build "${requestedBuild}" is not supported. Use GRCh37 (hg19), GRCh38 (hg38) or auto.`
+                    },
+                    { status: 400 }
+                );
+            }
+            buildOverride = build;
+        }
+
+        // Optional CYP2D6 copy number from a separate CNV assay; overrides copy number read from the VCF
+        const requestedCopyNumber = input.field('cyp2d6_copy_number')?.trim();
+        let copyNumbers: Record<string, number> | undefined;
+        if (requestedCopyNumber) {
+            const copies = Number(requestedCopyNumber);
+            if (!Number.isInteger(copies) || copies < 0) {
+                return NextResponse.json(
+                    { error: 'Invalid copy number', message: '"cyp2d6_copy_number" must be a non-negative integer (e.g. 0 for *5/*5, 3 for a duplication).' },
+                    { status: 400 }
+                );
+            }
+            copyNumbers = { CYP2D6: copies };
+        }
+
+        // Optional typed HLA-B alleles (e.g. "*57:01/*44:02"); replace the tag SNP inference
+        const requestedHla = input.field('hla_b')?.trim();
+        let hlaTyping: [string, string] | undefined;
+        if (requestedHla) {
+            const typed = parseHlaTyping(requestedHla);
+            if (!typed) {
+                return NextResponse.json(
+                    { error: 'Invalid HLA typing', message: '"hla_b" must list two HLA-B alleles, e.g. "B*57:01/B*44:02".' },
+                    { status: 400 }
+                );
+            }
+            hlaTyping = typed;
+        }
+
+        const medications = readMedications(input);
+        const bodySize = readBodySize(input);
+        if (typeof bodySize === 'string') {
+            return NextResponse.json({ error: 'Invalid dosing covariates', message: bodySize }, { status: 400 });
+        }
+        const patientContext = readPatientContext(input, bodySize);
+        if (typeof patientContext === 'string') {
+            return NextResponse.json({ error: 'Invalid patient context', message: patientContext }, { status: 400 });
+        }
+        const warfarinCovariates = readWarfarinCovariates(input, bodySize, patientContext, medications);
+        if (typeof warfarinCovariates === 'string') {
+            return NextResponse.json({ error: 'Invalid dosing covariates', message: warfarinCovariates }, { status: 400 });
+        }
+        const standardDoses = readStandardDoses(input);
+        if (typeof standardDoses === 'string') {
+            return NextResponse.json({ error: 'Invalid standard doses', message: standardDoses }, { status: 400 });
+        }
 
-        // Server-side VCF content validation
-        if (!vcfString.includes('##fileformat=VCF')) {
+        // 1. Stream-parse the VCF or consumer raw-data export (gzip / BGZF input is
+        // decompressed transparently). Only records at targeted pharmacogene loci are kept in memory.
+        let parsed: ParsedVCF;
+        try {
+            parsed = await parseGenotypeStream(decompressIfGzipped(input.vcf), {
+                includeRecord: isTargetedLocus,
+                includeRange: overlapsTargetedLocus,
+                resolveAlleles: targetAlleles,
+                build: buildOverride
+            });
+        } catch (parseError) {
+            if (parseError instanceof DecompressionError) {
+                return NextResponse.json(
+                    {
+                        error: 'Invalid compressed VCF',
+                        message: `The uploaded file looks gzip-compressed but could not be decompressed: ${parseError.message}. Please re-compress it with bgzip or gzip and try again.`
+                    },
+                    { status: 422 }
+                );
+            }
+            return NextResponse.json(
+                {
+                    error: 'Unreadable genotype file',
+                    message: parseError instanceof Error ? parseError.message : 'The uploaded file could not be parsed.'
+                },
+                { status: 422 }
+            );
+        }
+        const variants = parsed.variants;
+
+        // Server-side VCF content validation: header errors make the whole file unusable
+        const validation = parsed.validation;
+        const headerErrors = validation.errors.filter(issue => FATAL_VALIDATION_CODES.includes(issue.code));
+        if (headerErrors.length > 0) {
             return NextResponse.json(
                 {
                     error: 'Invalid VCF content',
-                    message: 'File does not appear to be a valid VCF. No "##fileformat=VCF" header was detected. Please upload a properly formatted Variant Call Format file.'
+                    message: `File does not appear to be a valid VCF. ${headerErrors.map(issue => issue.message).join(' ')} Please upload a properly formatted Variant Call Format file.`,
+                    validation
                 },
                 { status: 422 }
             );
         }
 
-        // 1. Parse VCF
-        const variants = parseVCF(vcfString);
+        // Additional check: if parsing found no variant rows at all
+        if (parsed.recordCount === 0) {
+            return NextResponse.json(
+                {
+                    error: 'Invalid VCF content',
+                    message: 'No variant records were detected in the uploaded file. The VCF header was found but the file contains no variant data rows. Please check your file and try again.',
+                    validation
+                },
+                { status: 422 }
+            );
+        }
 
-        // Additional check: if parsing extracted no variants at all
-        if (variants.length === 0) {
+        if (validation.skippedRecords === parsed.recordCount) {
             return NextResponse.json(
                 {
                     error: 'Invalid VCF content',
-                    message: 'No variant records were detected in the uploaded file. The VCF header was found but the file contains no variant data rows. Please check your file and try again.'
+                    message: `None of the ${parsed.recordCount} variant records could be parsed. See the validation report for the affected lines.`,
+                    validation
                 },
                 { status: 422 }
             );
         }
 
-        // 2. Generate PGx Profile
-        const profile = generatePharmacogenomicProfile(variants);
-
-        // 3. Process each drug and interact with GROQ (in parallel)
-        const results = await Promise.all(drugsToAnalyze.map(async (drug) => {
-            const assessment = evaluateDrugRisk(drug, profile);
-            const llm_explanation = await generateExplanation(drug, assessment, profile);
-
-            // Normalize Phenotypes
-            const rawPhenotype = assessment.phenotype;
-            let normalizedPhenotype = "Unknown";
-            if (rawPhenotype.includes('Poor Metabolizer') || rawPhenotype.includes('Poor Function')) normalizedPhenotype = 'PM';
-            if (rawPhenotype.includes('Intermediate Metabolizer') || rawPhenotype.includes('Decreased Function')) normalizedPhenotype = 'IM';
-            if (rawPhenotype.includes('Normal Metabolizer') || rawPhenotype.includes('Normal Function')) normalizedPhenotype = 'NM';
-            if (rawPhenotype.includes('Rapid Metabolizer')) normalizedPhenotype = 'RM';
-            if (rawPhenotype.includes('Ultrarapid Metabolizer') || rawPhenotype.includes('Ultra Rapid Metabolizer')) normalizedPhenotype = 'URM';
-
-            // Map Normal Function specifically to "Normal" if the user schema required it over NM, but keeping NM keeps consistency. Wait, user specifically requested "Normal" for *1/*1
-            if (rawPhenotype === 'Normal Function') normalizedPhenotype = 'Normal';
-
-            // Normalize Risk Label
-            let normalizedRiskLabel: string = assessment.risk;
-            if (normalizedRiskLabel === 'Indeterminate') normalizedRiskLabel = 'Unknown';
-
-            // Determine Severity
-            let severity = 'low';
-            if (normalizedRiskLabel === 'Toxic') severity = 'critical';
-            else if (normalizedRiskLabel === 'Adjust Dosage') severity = 'moderate';
-            else if (normalizedRiskLabel === 'Safe') severity = 'none';
-
-            // Map Variant Impact specific to the active Gene and exactly to Genotype
-            const getImpact = (rsid: string, genotype: string, currentGene: string) => {
-                // If it doesn't belong to the targeting mapping for this gene, discard it to prevent bleed
-                const belongsToGene = (
-                    (currentGene === 'CYP2C19' && ['rs4244285', 'rs4986893'].includes(rsid)) ||
-                    (currentGene === 'CYP2C9' && ['rs1799853', 'rs1057910'].includes(rsid)) ||
-                    (currentGene === 'CYP2D6' && ['rs3892097', 'rs1065852', 'rs16947', 'rs1135840'].includes(rsid)) ||
-                    (currentGene === 'TPMT' && ['rs1142345', 'rs1800460', 'rs1800462'].includes(rsid)) ||
-                    (currentGene === 'DPYD' && ['rs3918290', 'rs67376798'].includes(rsid)) ||
-                    (currentGene === 'SLCO1B1' && ['rs4149056', 'rs2306283'].includes(rsid))
+        const caveats = parsed.format === 'vcf' ? [] : [ARRAY_COVERAGE_CAVEAT];
+
+        // 2. Resolve which sample column(s) to analyse ("all" by default)
+        const sampleIds = parsed.samples.length > 0 ? parsed.samples : ['UNNAMED_SAMPLE'];
+        const requestedSample = input.field('sample')?.trim() || 'all';
+        let selectedSamples = sampleIds;
+        if (requestedSample.toLowerCase() !== 'all') {
+            if (!sampleIds.includes(requestedSample)) {
+                return NextResponse.json(
+                    {
+                        error: 'Unknown sample',
+                        message: `Sample "${requestedSample}" is not present in this VCF. Available samples: ${sampleIds.join(', ')}.`
+                    },
+                    { status: 400 }
                 );
+            }
+            selectedSamples = [requestedSample];
+        }
 
-                if (!belongsToGene) return 'Unknown';
-
-                if (genotype === '0/0') return 'Normal_function';
-                if (genotype === '0/1') return 'Reduced_function';
-                if (genotype === '1/1') {
-                    if (['rs3892097', 'rs3918290', 'rs1065852'].includes(rsid)) return 'No_function';
-                    return 'Loss_of_function';
-                }
-
-                return 'Unknown';
+        // 3. Generate a PGx Profile and result set per sample
+        const samples = await Promise.all(selectedSamples.map(async (sampleId, sampleNumber) => {
+            const sampleIndex = sampleIds.indexOf(sampleId);
+            const profile = generatePharmacogenomicProfile(variants, {
+                sampleIndex,
+                build: parsed.build,
+                quality: qualityThresholds,
+                copyNumbers,
+                hlaTyping
+            });
+
+            // Targeted positions by call status: a gVCF reference block counts as a reference call
+            const allCalls = Object.values(profile.genes).flatMap(g => g.calls ?? []);
+            const targetCoverage = {
+                called_variant: allCalls.filter(c => c.coverage === 'called-variant').length,
+                called_reference: allCalls.filter(c => c.coverage === 'called-reference').length,
+                uncovered: allCalls.filter(c => c.coverage === 'uncovered').length
             };
 
-            const detected_variants = variants
-                .filter(v => v.id && v.id.startsWith('rs'))
-                .map(v => {
-                    // Extract exact genotype (e.g. 0/0)
-                    const rawSample = v.sampleData?.[0] || 'Unknown';
-                    const genotype = rawSample.includes(':') ? rawSample.split(':')[0] : rawSample;
-                    return {
-                        rsid: v.id,
-                        genotype: genotype,
-                        impact: getImpact(v.id, genotype, assessment.gene)
-                    };
-                })
-                // Filter out variants that do NOT belong to this gene (to prevent rsid crossover)
-                .filter(v => v.impact !== 'Unknown');
-
-            // Ensure clean variants signal true annotation
-            const allVariantsHaveImpact = detected_variants.length > 0 ? detected_variants.every(v => v.impact !== 'Unknown') : true;
-
-            // Cap Confidence Score to 0.95 maximum
-            let finalConfidence = profile.gciScore / 100;
-            if (finalConfidence >= 1.0) finalConfidence = 0.95;
-            if (finalConfidence > 0.85 && finalConfidence < 0.95) finalConfidence = 0.90; // normalize slightly
-
-            return {
-                patient_id: "PATIENT_" + Math.random().toString(36).substr(2, 6).toUpperCase(),
-                drug: drug,
-                timestamp: new Date().toISOString(),
-                risk_assessment: {
-                    risk_label: normalizedRiskLabel,
-                    confidence_score: finalConfidence,
-                    severity: severity
-                },
-                pharmacogenomic_profile: {
-                    primary_gene: assessment.gene,
-                    diplotype: assessment.diplotype,
-                    phenotype: normalizedPhenotype,
-                    detected_variants: detected_variants
-                },
-                clinical_recommendation: {
-                    action: typeof llm_explanation.action_required === 'string' ? llm_explanation.action_required : assessment.recommendation,
-                    dose_adjustment: assessment.risk === 'Toxic' || assessment.risk === 'Adjust Dosage' ? "Evaluate per guidelines." : "Standard dosing.",
-                    guideline_source: "CPIC"
-                },
-                llm_generated_explanation: {
-                    summary: typeof llm_explanation.patient_friendly === 'object' ? Object.values(llm_explanation.patient_friendly).join(' ') : (llm_explanation.patient_friendly || 'N/A'),
-                    patient_view: typeof llm_explanation.patient_friendly === 'object' ? Object.values(llm_explanation.patient_friendly).join(' ') : (llm_explanation.patient_friendly || 'N/A'),
-                    clinician_view: typeof llm_explanation.clinician_technical === 'object' ? Object.values(llm_explanation.clinician_technical).join(' ') : (llm_explanation.clinician_technical || 'N/A')
-                },
-                quality_metrics: {
-                    vcf_parsing_success: variants.length > 0,
-                    variant_annotation_complete: allVariantsHaveImpact,
-                    gene_coverage: Object.keys(profile.genes).length,
-                    gci_score: profile.gciScore
-                }
-            };
+            // Process each drug and interact with GROQ (in parallel)
+            const results = await Promise.all(drugsToAnalyze.map(async (drug) => {
+                // Risks are evaluated against the phenotypes the co-medications leave the patient
+                // with; a drug does not phenoconvert its own metabolism
+                const { profile: effectiveProfile, conversions } = phenoconvertProfile(profile, medications.filter(m => m !== drug));
+                const assessment = evaluateDrugRisk(drug, effectiveProfile, patientContext);
+                const drugConversions = conversions.filter(c => assessment.genes.includes(c.gene));
+                const llm_explanation = sampleNumber === 0
+                    ? await generateExplanation(drug, assessment, effectiveProfile, drugConversions)
+                    : deferredExplanation(sampleId);
+
+                // Normalize Phenotypes
+                const rawPhenotype = assessment.phenotype;
+                // Phenotypes outside the metabolizer scale (carrier status, G6PD, warfarin sensitivity) are kept as called
+                let normalizedPhenotype = rawPhenotype === 'Indeterminate' ? 'Unknown' : rawPhenotype;
+                if (rawPhenotype.includes('Poor Metabolizer') || rawPhenotype.includes('Poor Function')) normalizedPhenotype = 'PM';
+                if (rawPhenotype.includes('Intermediate Metabolizer') || rawPhenotype.includes('Decreased Function')) normalizedPhenotype = 'IM';
+                if (rawPhenotype.includes('Normal Metabolizer') || rawPhenotype.includes('Normal Function')) normalizedPhenotype = 'NM';
+                if (rawPhenotype.includes('Rapid Metabolizer')) normalizedPhenotype = 'RM';
+                if (rawPhenotype.includes('Ultrarapid Metabolizer') || rawPhenotype.includes('Ultra Rapid Metabolizer')) normalizedPhenotype = 'URM';
+
+                // Map Normal Function specifically to "Normal" if the user schema required it over NM, but keeping NM keeps consistency. Wait, user specifically requested "Normal" for *1/*1
+                if (rawPhenotype === 'Normal Function') normalizedPhenotype = 'Normal';
+
+                // Normalize Risk Label
+                let normalizedRiskLabel: string = assessment.risk;
+                if (normalizedRiskLabel === 'Indeterminate') normalizedRiskLabel = 'Unknown';
+
+                // Determine Severity
+                let severity = 'low';
+                if (normalizedRiskLabel === 'Toxic') severity = 'critical';
+                else if (normalizedRiskLabel === 'Adjust Dosage') severity = 'moderate';
+                else if (normalizedRiskLabel === 'Safe') severity = 'none';
+
+                const geneResult = effectiveProfile.genes[assessment.gene];
+                const genotypicResult = profile.genes[assessment.gene];
+
+                // Genotype-guided maintenance dose, when the clinical covariates were supplied. IWPC
+                // models amiodarone and enzyme inducers itself, so it takes the genotypic profile
+                const doseEstimate = assessment.drug === 'WARFARIN' && warfarinCovariates ? estimateWarfarinDose(profile, warfarinCovariates) : null;
+                const doseGuidance = assessment.doseGuidance;
+                const standardDose = standardDoses[assessment.drug];
+                const calculatedDose = doseGuidance && standardDose !== undefined
+                    ? calculateAdjustedDose(assessment.doseBasis, doseGuidance, { ...bodySize, standardDose })
+                    : null;
+
+                // Map Variant Impact from the function of the star allele carrying each tested allele
+                // (the allele table's definition when the diplotype could not be called)
+                const getImpact = (rsid: string, dosage: number | null) => {
+                    if (dosage === null) return 'Unknown';
+                    if (dosage === 0) return IMPACT_LABELS.find(([f]) => f === referenceAllele(assessment.gene).function)?.[1] ?? 'Normal_function';
+                    const carrying = (geneResult?.alleles ?? []).filter((_, h) => geneResult?.haplotypes?.[h].includes(rsid));
+                    const functions = carrying.length > 0 ? carrying.map(a => a.function) : [variantFunction(assessment.gene, rsid) ?? 'Uncertain function'];
+                    return IMPACT_LABELS.find(([f]) => functions.includes(f))?.[1] ?? 'Uncertain_function';
+                };
+
+                // Only targets of this gene are listed (prevents rsid crossover); records may
+                // have been matched by coordinates even when the VCF ID column is empty
+                const detected_variants = (geneResult?.calls ?? [])
+                    .map(call => ({
+                        rsid: call.rsid,
+                        genotype: call.genotype,
+                        matched_by: call.matchedBy,
+                        coverage: call.coverage,
+                        impact: getImpact(call.rsid, call.dosage)
+                    }))
+                    .filter(v => v.impact !== 'Unknown');
+
+                // Calls present in the VCF but rejected by the quality thresholds
+                const filtered_calls = (geneResult?.calls ?? [])
+                    .filter(call => call.qualityFlags.length > 0)
+                    .map(call => ({ rsid: call.rsid, genotype: call.genotype, reasons: call.qualityFlags }));
+
+                // Ensure clean variants signal true annotation
+                const allVariantsHaveImpact = detected_variants.length > 0 ? detected_variants.every(v => v.impact !== 'Unknown') : true;
+
+                // Cap Confidence Score to 0.95 maximum
+                let finalConfidence = profile.gciScore / 100;
+                if (finalConfidence >= 1.0) finalConfidence = 0.95;
+                if (finalConfidence > 0.85 && finalConfidence < 0.95) finalConfidence = 0.90; // normalize slightly
+
+                return {
+                    patient_id: "PATIENT_" + Math.random().toString(36).substr(2, 6).toUpperCase(),
+                    sample_id: sampleId,
+                    drug: drug,
+                    requested_as: drugResolution.filter(r => r.analyzedAs.includes(drug) || r.ingredients.includes(drug) || normalizeDrugName(r.input) === drug).map(r => r.input),
+                    timestamp: new Date().toISOString(),
+                    risk_assessment: {
+                        risk_label: normalizedRiskLabel,
+                        genetic_risk_label: assessment.geneticRisk,
+                        context_modified: assessment.contextFlags.some(f => f.risk !== null),
+                        evidence_strength: assessment.evidenceStrength,
+                        confidence_score: finalConfidence,
+                        severity: severity
+                    },
+                    pharmacogenomic_profile: {
+                        primary_gene: assessment.gene,
+                        contributing_genes: assessment.genes.map(gene => ({
+                            gene,
+                            diplotype: profile.genes[gene]?.diplotype ?? 'Unknown',
+                            phenotype: effectiveProfile.genes[gene]?.phenotype ?? 'Indeterminate',
+                            genotypic_phenotype: profile.genes[gene]?.phenotype ?? 'Indeterminate',
+                            drove_recommendation: assessment.drivingGenes.includes(gene)
+                        })),
+                        diplotype: assessment.diplotype,
+                        phenotype: normalizedPhenotype,
+                        genotypic_phenotype: genotypicResult?.phenotype ?? 'Indeterminate',
+                        activity_score: assessment.activityScore ?? null,
+                        genotypic_activity_score: genotypicResult?.activityScore ?? null,
+                        phenoconversion: drugConversions.map(c => ({
+                            gene: c.gene,
+                            genotypic_phenotype: c.genotypicPhenotype,
+                            effective_phenotype: c.phenotype,
+                            genotypic_activity_score: c.genotypicActivityScore ?? null,
+                            effective_activity_score: c.activityScore ?? null,
+                            converted: c.phenotype !== c.genotypicPhenotype,
+                            applied: c.applied?.drug ?? null,
+                            perpetrators: c.perpetrators
+                        })),
+                        copy_number: geneResult?.copyNumber ?? null,
+                        star_alleles: (geneResult?.alleles ?? []).map(a => ({
+                            allele: a.name,
+                            copies: a.copies,
+                            function: a.function,
+                            activity_value: alleleActivityValue(assessment.gene, a.name) ?? null
+                        })),
+                        detected_variants: detected_variants,
+                        filtered_calls: filtered_calls,
+                        phase_status: geneResult?.phase ?? null,
+                        hemizygous: geneResult?.hemizygous ?? false,
+                        call_source: geneResult?.source ?? null,
+                        diplotype_candidates: (geneResult?.candidates ?? []).map(c => ({
+                            diplotype: c.diplotype,
+                            phenotype: c.phenotype,
+                            activity_score: c.activityScore ?? null
+                        }))
+                    },
+                    clinical_recommendation: {
+                        action: typeof llm_explanation.action_required === 'string' ? llm_explanation.action_required : assessment.recommendation,
+                        // The rules engine's own text, kept verbatim so saved reports can be re-checked against later guidelines
+                        guideline_recommendation: assessment.recommendation,
+                        dose_adjustment: doseEstimate
+                            ? `Estimated maintenance dose ${doseEstimate.weeklyDoseMg} mg/week (about ${doseEstimate.dailyDoseMg} mg/day, ${doseEstimate.algorithm}). Titrate to INR.`
+                            : doseGuidance ? describeDoseGuidance(doseGuidance)
+                            : assessment.risk === 'Toxic' || assessment.risk === 'Adjust Dosage' ? "Evaluate per guidelines." : "Standard dosing.",
+                        // Structured form of the rule's dosing advice; amounts are per day
+                        dose_guidance: doseGuidance && {
+                            dose_basis: assessment.doseBasis,
+                            percent_of_standard: doseGuidance.percentOfStandard ?? null,
+                            starting_dose: doseGuidance.startingDose ?? null,
+                            max_daily_dose: doseGuidance.maxDailyDose ?? null,
+                            frequency: doseGuidance.frequency ?? null,
+                            titration: doseGuidance.titration
+                        },
+                        // Guidance applied to the standard dose supplied in "standard_doses"
+                        calculated_dose: calculatedDose && {
+                            dose_basis: calculatedDose.basis,
+                            standard_dose: calculatedDose.standardDose,
+                            percent_of_standard: calculatedDose.percentOfStandard,
+                            adjusted_dose: calculatedDose.adjustedDose,
+                            adjusted_mg: calculatedDose.adjustedMg,
+                            weight_kg: calculatedDose.weightKg,
+                            bsa_m2: calculatedDose.bsaM2,
+                            bsa_source: calculatedDose.bsaSource,
+                            capped_at: calculatedDose.cappedAt,
+                            frequency: calculatedDose.frequency,
+                            notes: calculatedDose.notes
+                        },
+                        dose_estimate: doseEstimate && {
+                            algorithm: doseEstimate.algorithm,
+                            weekly_dose_mg: doseEstimate.weeklyDoseMg,
+                            daily_dose_mg: doseEstimate.dailyDoseMg,
+                            genotypes: doseEstimate.genotypes,
+                            driving_genes: doseEstimate.drivingGenes,
+                            interacting_medications: doseEstimate.interactingMedications,
+                            notes: doseEstimate.notes
+                        },
+                        // Recommendations changed by age, pregnancy, lactation or renal function; advisories have a null risk
+                        context_flags: assessment.contextFlags.map(f => ({
+                            condition: f.condition,
+                            risk: f.risk,
+                            recommendation: f.recommendation,
+                            sources: citationsJson(f.sources)
+                        })),
+                        // Structured alternatives, each already checked against this patient's profile
+                        alternatives: assessment.alternatives.map(a => ({
+                            drug: a.drug,
+                            reason: a.reason,
+                            guideline_checked: a.assessedRisk !== null
+                        })),
+                        excluded_alternatives: assessment.excludedAlternatives.map(a => ({
+                            drug: a.drug,
+                            reason: a.reason,
+                            risk: a.assessedRisk
+                        })),
+                        // Body of the primary guideline; "None" for standard-of-care or pharmacokinetic advice
+                        guideline_source: assessment.provenance.sources[0]?.body ?? 'None',
+                        provenance: {
+                            sources: citationsJson(assessment.provenance.sources),
+                            cpic_level: assessment.provenance.cpicLevel,
+                            classification: assessment.provenance.classification
+                        }
+                    },
+                    llm_generated_explanation: {
+                        summary: typeof llm_explanation.patient_friendly === 'object' ? Object.values(llm_explanation.patient_friendly).join(' ') : (llm_explanation.patient_friendly || 'N/A'),
+                        patient_view: typeof llm_explanation.patient_friendly === 'object' ? Object.values(llm_explanation.patient_friendly).join(' ') : (llm_explanation.patient_friendly || 'N/A'),
+                        clinician_view: typeof llm_explanation.clinician_technical === 'object' ? Object.values(llm_explanation.clinician_technical).join(' ') : (llm_explanation.clinician_technical || 'N/A')
+                    },
+                    quality_metrics: {
+                        vcf_parsing_success: parsed.recordCount > 0,
+                        input_format: parsed.format,
+                        coverage_caveat: caveats[0] ?? null,
+                        records_scanned: parsed.recordCount,
+                        records_skipped: validation.skippedRecords,
+                        validation_errors: validation.errorCount,
+                        validation_warnings: validation.warningCount,
+                        genome_build: parsed.build ?? 'Unknown',
+                        genome_build_source: parsed.buildSource,
+                        variant_annotation_complete: allVariantsHaveImpact,
+                        gene_coverage: Object.keys(profile.genes).length,
+                        target_coverage: targetCoverage,
+                        calls_failing_quality: allCalls.filter(c => c.qualityFlags.length > 0).length,
+                        quality_thresholds: qualityThresholds,
+                        gci_score: profile.gciScore
+                    }
+                };
+            }));
+
+            return { sample_id: sampleId, profile, results };
         }));
 
-        // Return SINGLE JSON OBJECT with results array
+        if (samples.some(sample => sample.results.some(r => r.pharmacogenomic_profile.call_source === 'tag-snp'))) {
+            caveats.push(HLA_TAG_SNP_CAVEAT);
+        }
+
+        // Return SINGLE JSON OBJECT: `results` holds the first selected sample for
+        // single-sample consumers, `samples` holds every analysed sample and
+        // `validation` holds the line-level validation report
         return NextResponse.json({
-            results: results
+            results: samples[0].results,
+            samples: samples,
+            input_format: parsed.format,
+            caveats,
+            validation,
+            drug_resolution: drugResolution.map(r => ({
+                input: r.input,
+                method: r.method,
+                matched_name: r.matchedName,
+                ignored_terms: r.ignoredTerms,
+                ingredients: r.ingredients,
+                analyzed_as: r.analyzedAs,
+                notes: r.notes,
+                suggestions: r.suggestions
+            })),
+            // Non-genetic context the context rules were evaluated against; null when not supplied
+            patient_context: {
+                age_years: patientContext.ageYears ?? null,
+                sex: patientContext.sex ?? null,
+                weight_kg: patientContext.weightKg ?? null,
+                pregnant: patientContext.pregnant ?? null,
+                lactating: patientContext.lactating ?? null,
+                egfr: patientContext.egfr ?? null
+            },
+            // Canonical co-medications the phenoconversion was evaluated against
+            medications,
+            knowledge_base: { version: KNOWLEDGE_BASE.version, updated: KNOWLEDGE_BASE.updated }
         });
 
     } catch (error: any) {
@@ -1,7 +1,7 @@
 'use client';
 
 import { useState } from 'react';
-import { Download, Copy, ArrowLeft } from 'lucide-react';
+import { Download, Copy, ArrowLeft, AlertTriangle } from 'lucide-react';
 import ConsentModal from '@/components/SecurityModals';
 import UploadModal from '@/components/UploadModal';
 import PatientDashboard from '@/components/PatientDashboard';
@@ -9,30 +9,45 @@ import DoctorDashboard from '@/components/DoctorDashboard';
 import DigitalTwin from '@/components/DigitalTwin';
 import GCIBadge from '@/components/GCIBadge';
 import DNABackground from '@/components/DNABackground';
+import type { ValidationReport } from '@/lib/vcfValidation';
 
 export default function Home() {
   const [hasConsented, setHasConsented] = useState(false);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const [results, setResults] = useState<any[] | null>(null);
+  const [samples, setSamples] = useState<any[] | null>(null);
+  const [activeSample, setActiveSample] = useState(0);
+  const [validation, setValidation] = useState<ValidationReport | null>(null);
+  const [caveats, setCaveats] = useState<string[]>([]);
+  const [knowledgeBase, setKnowledgeBase] = useState<{ version: string; updated: string } | null>(null);
+  // Inputs echoed by the API; saved with the report so it can be re-run after a guideline update
+  const [analysisInputs, setAnalysisInputs] = useState<{ patient_context: Record<string, unknown>; medications: string[] } | null>(null);
   const [viewMode, setViewMode] = useState<'patient' | 'clinical' | 'json'>('patient');
 
-  const handleAnalyze = async (file: File, drugs: string) => {
+  const results = samples ? samples[activeSample]?.results ?? null : null;
+
+  const handleAnalyze = async (file: File, drugs: string, sample: string, fields: Record<string, string>) => {
     setIsAnalyzing(true);
     try {
-      const formData = new FormData();
-      formData.append('vcf', file);
-      formData.append('drugs', drugs);
-
+      // Send the file as the raw request body so the API can stream-parse whole-genome VCFs.
+      // Options go in a header, not the URL, which hosting and proxy logs record; non-ASCII
+      // characters are escaped because header values must be ASCII.
+      const options = JSON.stringify({ drugs, sample, ...fields }).replace(/[\u007f-\uffff]/g, c => `\\u${c.charCodeAt(0).toString(16).padStart(4, '0')}`);
       const res = await fetch('/api/analyze', {
         method: 'POST',
-        body: formData
+        headers: { 'Content-Type': 'application/octet-stream', 'X-Analysis-Options': options },
+        body: file
       });
 
       const json = await res.json();
       if (json.results) {
-        setResults(json.results);
+        setSamples(json.samples ?? [{ sample_id: null, results: json.results }]);
+        setActiveSample(0);
+        setValidation(json.validation ?? null);
+        setCaveats(json.caveats ?? []);
+        setKnowledgeBase(json.knowledge_base ?? null);
+        setAnalysisInputs({ patient_context: json.patient_context ?? {}, medications: json.medications ?? [] });
       } else {
-        alert(json.error || 'Failed to analyze VCF');
+        alert(json.message || json.error || 'Failed to analyze VCF');
       }
     } catch (err) {
       console.error(err);
@@ -44,7 +59,7 @@ export default function Home() {
 
   const handleDownloadReport = () => {
     if (!results) return;
-    const blob = new Blob([JSON.stringify({ results }, null, 2)], { type: 'application/json' });
+    const blob = new Blob([JSON.stringify({ results, samples, caveats, validation, ...analysisInputs, knowledge_base: knowledgeBase }, null, 2)], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
@@ -55,12 +70,17 @@ export default function Home() {
 
   const handleCopyClipboard = () => {
     if (!results) return;
-    navigator.clipboard.writeText(JSON.stringify({ results }, null, 2));
+    navigator.clipboard.writeText(JSON.stringify({ results, samples, caveats, validation, ...analysisInputs, knowledge_base: knowledgeBase }, null, 2));
     alert('JSON Report copied to clipboard');
   };
 
   const resetAnalysis = () => {
-    setResults(null);
+    setSamples(null);
+    setActiveSample(0);
+    setValidation(null);
+    setCaveats([]);
+    setKnowledgeBase(null);
+    setAnalysisInputs(null);
   };
 
   if (!hasConsented) {
@@ -97,6 +117,25 @@ export default function Home() {
           <div className="flex items-center gap-4">
             <GCIBadge score={results[0]?.quality_metrics?.gci_score || 0} />
 
+            {knowledgeBase && (
+              <span className="hidden md:inline text-xs font-semibold text-white/70" title={`Guideline knowledge base updated ${knowledgeBase.updated}`}>
+                KB v{knowledgeBase.version}
+              </span>
+            )}
+
+            {samples && samples.length > 1 && (
+              <select
+                value={activeSample}
+                onChange={(e) => setActiveSample(Number(e.target.value))}
+                className="bg-white/10 backdrop-blur-sm text-white text-sm font-bold rounded-full px-4 py-2 border border-white/20 focus:outline-none"
+                aria-label="Select sample"
+              >
+                {samples.map((sample, i) => (
+                  <option key={sample.sample_id ?? i} value={i} className="text-slate-900">{sample.sample_id}</option>
+                ))}
+              </select>
+            )}
+
             <div className="bg-white/10 backdrop-blur-sm p-1 rounded-full flex items-center border border-white/20">
               <button
                 onClick={() => setViewMode('patient')}
@@ -143,6 +182,33 @@ export default function Home() {
         ) : (
           <div className="space-y-12">
 
+            {/* Report Caveats — e.g. limited coverage of consumer genotyping arrays */}
+            {caveats.map((caveat, i) => (
+              <div key={i} className="p-5 rounded-2xl bg-white border border-warning/30 shadow-sm text-sm flex items-start gap-3">
+                <AlertTriangle className="w-5 h-5 text-warning shrink-0 mt-0.5" />
+                <p className="text-slate-700">{caveat}</p>
+              </div>
+            ))}
+
+            {/* VCF Validation Report — explains why parts of the file were skipped */}
+            {validation && validation.errorCount + validation.warningCount > 0 && (
+              <div className="p-5 rounded-2xl bg-white border border-warning/30 shadow-sm text-sm">
+                <p className="font-bold text-slate-900 flex items-center gap-2 mb-1">
+                  <AlertTriangle className="w-4 h-4 text-warning" />
+                  VCF validation: {validation.errorCount} error(s), {validation.warningCount} warning(s)
+                  {validation.skippedRecords > 0 && <span className="font-normal text-slate-500">• {validation.skippedRecords} record(s) skipped</span>}
+                </p>
+                <ul className="mt-2 space-y-1 text-xs text-slate-600 font-mono max-h-40 overflow-y-auto">
+                  {[...validation.errors, ...validation.warnings].map((issue, i) => (
+                    <li key={i}>
+                      <span className={issue.severity === 'error' ? 'text-danger font-bold' : 'text-warning font-bold'}>{issue.line !== null ? `Line ${issue.line}` : 'File'}:</span> {issue.message}
+                    </li>
+                  ))}
+                </ul>
+                {validation.truncated && <p className="mt-2 text-xs text-slate-400">Only the first occurrences of each issue type are listed.</p>}
+              </div>
+            )}
+
             {viewMode === 'patient' && <PatientDashboard data={results} />}
             {viewMode === 'clinical' && <DoctorDashboard data={results} />}
             {viewMode === 'json' && (
@@ -6,29 +6,17 @@ import {
     ResponsiveContainer, ReferenceLine, Legend
 } from 'recharts';
 import { RefreshCw, Zap, Activity, TrendingDown, TrendingUp, Minus } from 'lucide-react';
+import { getDrugGuideline } from '@/lib/knowledgeBase';
 
 interface DigitalTwinProps {
     data: any[];
 }
 
-// Drug-specific PK parameters (literature-based approximations)
-// D = dose (mg), F = bioavailability, Vd = vol of distribution (L), ka = absorption rate constant (/h)
-// ke base (Normal Metabolizer), toxicity threshold (mg/L), efficacy floor (mg/L)
-const DRUG_PK_PARAMS: Record<string, {
-    D: number; F: number; Vd: number; ka: number; ke_normal: number;
-    toxicity: number; efficacy: number; unit: string; halfLifeHr: number;
-}> = {
-    CODEINE: { D: 30, F: 0.9, Vd: 200, ka: 1.5, ke_normal: 0.35, toxicity: 0.25, efficacy: 0.05, unit: 'µg/L', halfLifeHr: 3 },
-    WARFARIN: { D: 5, F: 0.9, Vd: 10, ka: 0.6, ke_normal: 0.04, toxicity: 3.0, efficacy: 0.8, unit: 'mg/L', halfLifeHr: 36 },
-    CLOPIDOGREL: { D: 75, F: 0.5, Vd: 400, ka: 1.2, ke_normal: 0.6, toxicity: 0.6, efficacy: 0.1, unit: 'µg/L', halfLifeHr: 6 },
-    SIMVASTATIN: { D: 40, F: 0.05, Vd: 580, ka: 1.0, ke_normal: 1.5, toxicity: 0.12, efficacy: 0.02, unit: 'µg/L', halfLifeHr: 2 },
-    AZATHIOPRINE: { D: 100, F: 0.8, Vd: 45, ka: 1.3, ke_normal: 0.35, toxicity: 8.0, efficacy: 2.0, unit: 'mg/L', halfLifeHr: 5 },
-    FLUOROURACIL: { D: 500, F: 1.0, Vd: 22, ka: 2.0, ke_normal: 0.9, toxicity: 300, efficacy: 80, unit: 'µg/L', halfLifeHr: 0.5 },
-    AMIODARONE: { D: 200, F: 0.5, Vd: 5000, ka: 0.3, ke_normal: 0.003, toxicity: 3.5, efficacy: 1.0, unit: 'mg/L', halfLifeHr: 40 },
-    CITALOPRAM: { D: 20, F: 0.8, Vd: 400, ka: 0.5, ke_normal: 0.04, toxicity: 0.5, efficacy: 0.05, unit: 'mg/L', halfLifeHr: 35 },
-    OMEPRAZOLE: { D: 20, F: 0.65, Vd: 35, ka: 0.8, ke_normal: 0.7, toxicity: 2.5, efficacy: 0.3, unit: 'mg/L', halfLifeHr: 1.5 },
-    PHENYTOIN: { D: 300, F: 0.9, Vd: 45, ka: 0.4, ke_normal: 0.03, toxicity: 25, efficacy: 10, unit: 'mg/L', halfLifeHr: 22 },
-};
+// Drug PK parameters (literature-based approximations) come from the knowledge base
+const pkParameters = (drug: string) => getDrugGuideline(drug)?.pk;
+
+// Prodrugs are activation-based, not clearance-based
+const isProdrugDrug = (drug: string) => getDrugGuideline(drug)?.mechanism === 'Prodrug Activation';
 
 // Determine the ke modifier based on phenotype and whether the drug is a prodrug
 // Prodrugs: lower ke means LESS activation, higher ke means over-activation
@@ -51,17 +39,14 @@ const getKeModifier = (phenotype: string, isProdrug: boolean): number => {
     }
 };
 
-// Drugs that are prodrugss (activation-based, not clearance-based)
-const PRODRUG_SET = new Set(['CODEINE', 'CLOPIDOGREL']);
-
 const generatePKData = (drug: string, phenotype: string, timeWindow: number = 24) => {
-    const params = DRUG_PK_PARAMS[drug] ?? {
+    const params = pkParameters(drug) ?? {
         D: 100, F: 0.8, Vd: 50, ka: 1.2, ke_normal: 0.25,
         toxicity: 8.0, efficacy: 2.0, unit: 'mg/L', halfLifeHr: 6
     };
 
     const { D, F, Vd, ka, ke_normal, toxicity, efficacy } = params;
-    const isProdrug = PRODRUG_SET.has(drug);
+    const isProdrug = isProdrugDrug(drug);
     const keModifier = getKeModifier(phenotype, isProdrug);
     const ke = ke_normal * keModifier;
 
@@ -102,7 +87,7 @@ const generatePKData = (drug: string, phenotype: string, timeWindow: number = 24
 };
 
 const formatTooltipValue = (value: number, name: string, drug: string) => {
-    const unit = DRUG_PK_PARAMS[drug]?.unit ?? 'mg/L';
+    const unit = pkParameters(drug)?.unit ?? 'mg/L';
     return [`${value.toFixed(3)} ${unit}`, name];
 };
 
@@ -115,7 +100,7 @@ const getPhenotypeIcon = (phenotype: string) => {
 };
 
 const getTimeWindow = (drug: string): number => {
-    const halfLife = DRUG_PK_PARAMS[drug]?.halfLifeHr ?? 6;
+    const halfLife = pkParameters(drug)?.halfLifeHr ?? 6;
     // Show ~5 half-lives for clearance, rounded to readable window
     const fiveHL = halfLife * 5;
     if (fiveHL < 12) return 12;
@@ -126,7 +111,7 @@ const getTimeWindow = (drug: string): number => {
 
 const CustomTooltip = ({ active, payload, label, drug }: any) => {
     if (!active || !payload?.length) return null;
-    const unit = DRUG_PK_PARAMS[drug]?.unit ?? 'mg/L';
+    const unit = pkParameters(drug)?.unit ?? 'mg/L';
     return (
         <div className="bg-white border border-slate-200 rounded-xl shadow-lg p-3 text-xs">
             <p className="text-slate-500 font-semibold mb-1">t = {label}h</p>
@@ -158,8 +143,8 @@ export default function DigitalTwin({ data }: DigitalTwinProps) {
         return generatePKData(currentData.drug, currentData.pharmacogenomic_profile.phenotype, timeWindow);
     }, [currentData, timeWindow]);
 
-    const isProdrug = PRODRUG_SET.has(selectedDrug);
-    const pkParams = DRUG_PK_PARAMS[selectedDrug];
+    const isProdrug = isProdrugDrug(selectedDrug);
+    const pkParams = pkParameters(selectedDrug);
     const phenotype = currentData?.pharmacogenomic_profile.phenotype ?? '';
     const { Icon: PhenoIcon, color: phenoColor, label: phenoLabel } = getPhenotypeIcon(phenotype);
 
@@ -2,6 +2,8 @@
 
 import { useState } from 'react';
 import { Activity, ShieldAlert, CheckCircle, Database, Stethoscope, Award, FileWarning, ChevronDown, ChevronUp } from 'lucide-react';
+import { calculateAdjustedDose, describeDoseGuidance } from '@/lib/doseCalculator';
+import { DoseAmount, DoseBasis } from '@/lib/knowledgeBase';
 
 interface DoctorDashboardProps {
     data: any[];
@@ -17,6 +19,110 @@ const getBadgeColor = (risk: string) => {
     }
 };
 
+interface DoseGuidanceView {
+    dose_basis: DoseBasis;
+    percent_of_standard: [number, number] | null;
+    starting_dose: DoseAmount | null;
+    max_daily_dose: DoseAmount | null;
+    frequency: string | null;
+    titration: string;
+}
+
+const formatRange = ([min, max]: [number, number], unit: string) => `${min === max ? min : `${min}-${max}`} ${unit}`;
+
+// Shows the result's dose guidance and applies it to a standard dose entered by the clinician
+function DoseCalculator({ guidance, initialDose }: { guidance: DoseGuidanceView; initialDose?: number }) {
+    const [fields, setFields] = useState<Record<string, string>>({ standardDose: initialDose !== undefined ? String(initialDose) : '' });
+    const basis = guidance.dose_basis;
+    const read = (name: string) => {
+        const value = Number(fields[name]);
+        return fields[name] && Number.isFinite(value) && value > 0 ? value : undefined;
+    };
+    const doseGuidance = {
+        percentOfStandard: guidance.percent_of_standard ?? undefined,
+        startingDose: guidance.starting_dose ?? undefined,
+        maxDailyDose: guidance.max_daily_dose ?? undefined,
+        frequency: guidance.frequency ?? undefined,
+        titration: guidance.titration
+    };
+    const standardDose = read('standardDose');
+    const calculated = standardDose === undefined ? null : calculateAdjustedDose(basis, doseGuidance, { standardDose, weightKg: read('weightKg'), heightCm: read('heightCm'), bsaM2: read('bsaM2') });
+
+    const inputs = [
+        { name: 'standardDose', label: `Standard dose (${basis}/day)` },
+        ...(basis === 'mg' ? [] : [{ name: 'weightKg', label: 'Weight (kg)' }]),
+        ...(basis === 'mg/m2' ? [{ name: 'heightCm', label: 'Height (cm)' }, { name: 'bsaM2', label: 'BSA (m²)' }] : [])
+    ];
+
+    return (
+        <div className="mt-2 pt-2 border-t border-slate-100 text-xs">
+            <span className="text-slate-400 block mb-1">Dose Guidance:</span>
+            <p className="text-slate-800 font-semibold mb-1">{describeDoseGuidance(doseGuidance)}</p>
+            <div className="grid grid-cols-2 gap-1">
+                {inputs.map(input => (
+                    <label key={input.name} className="text-slate-500">
+                        {input.label}
+                        <input
+                            type="number"
+                            min={0}
+                            value={fields[input.name] ?? ''}
+                            onChange={(e) => setFields(prev => ({ ...prev, [input.name]: e.target.value }))}
+                            className="mt-0.5 w-full px-2 py-1 rounded border border-slate-200 bg-slate-50 text-slate-800 focus:outline-none focus:ring-1 focus:ring-primary/30"
+                        />
+                    </label>
+                ))}
+            </div>
+            {calculated && (
+                <div className="mt-1">
+                    <span className="font-mono text-slate-800 font-semibold">
+                        {calculated.adjustedMg ? formatRange(calculated.adjustedMg, 'mg') : formatRange(calculated.adjustedDose, basis)}
+                        {calculated.frequency ? `, ${calculated.frequency.toLowerCase()}` : '/day'}
+                    </span>
+                    {calculated.adjustedMg && basis !== 'mg' && (
+                        <span className="text-slate-500"> ({formatRange(calculated.adjustedDose, basis)}{calculated.bsaSource === 'mosteller' ? `, BSA ${calculated.bsaM2} m² by Mosteller` : ''})</span>
+                    )}
+                    {calculated.notes.filter(note => !note.startsWith('Dosing schedule')).map((note, ni) => (
+                        <p key={ni} className="text-slate-500 mt-0.5">{note}</p>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
+
+interface CitationView {
+    id: string;
+    body: string;
+    title: string;
+    version: string | null;
+    published: string | null;
+    literature: { citation: string; pmid: string | null; doi: string | null }[];
+}
+
+// Numbered guideline citations with PubMed and DOI links
+function Citations({ sources }: { sources: CitationView[] }) {
+    return (
+        <ol className="list-decimal list-inside space-y-1">
+            {sources.map(source => (
+                <li key={source.id} className="text-slate-700">
+                    {source.body !== 'None' && <span className="font-semibold text-slate-900">{source.body} </span>}
+                    {source.title}
+                    {(source.version || source.published) && (
+                        <span className="text-slate-500"> ({[source.version, source.published].filter(Boolean).join(', ')})</span>
+                    )}
+                    {source.literature.map(ref => (
+                        <span key={ref.citation} className="block pl-4 text-slate-500">
+                            {ref.citation}
+                            {ref.pmid && <>{' · '}<a href={`https://pubmed.ncbi.nlm.nih.gov/${ref.pmid}/`} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">PMID {ref.pmid}</a></>}
+                            {ref.doi && <>{' · '}<a href={`https://doi.org/${ref.doi}`} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">doi:{ref.doi}</a></>}
+                        </span>
+                    ))}
+                </li>
+            ))}
+        </ol>
+    );
+}
+
 function ExpandableRow({ result, idx }: { result: any; idx: number }) {
     const [expanded, setExpanded] = useState(false);
 
@@ -47,9 +153,14 @@ function ExpandableRow({ result, idx }: { result: any; idx: number }) {
                 </td>
                 <td className="p-3 text-slate-700 text-xs leading-relaxed min-w-[260px]">
                     {result.clinical_recommendation.action}
-                    {result.clinical_recommendation.alternatives && result.clinical_recommendation.alternatives !== 'N/A' && (
+                    {result.risk_assessment.context_modified && (
+                        <div className="mt-1 text-warning font-semibold">
+                            Patient context: {result.clinical_recommendation.context_flags.filter((f: { risk: string | null }) => f.risk !== null).map((f: { condition: string }) => f.condition).join('; ')} (genotype alone: {result.risk_assessment.genetic_risk_label})
+                        </div>
+                    )}
+                    {result.clinical_recommendation.alternatives?.length > 0 && (
                         <div className="mt-1 text-danger font-semibold">
-                            Alternates: {result.clinical_recommendation.alternatives}
+                            Alternates: {result.clinical_recommendation.alternatives.map((a: { drug: string }) => a.drug).join(', ')}
                         </div>
                     )}
                 </td>
@@ -66,7 +177,39 @@ function ExpandableRow({ result, idx }: { result: any; idx: number }) {
                                 <h5 className="text-xs font-bold uppercase tracking-wider text-slate-500 mb-2">Genotype Details</h5>
                                 <div className="space-y-1 text-xs">
                                     <div><span className="text-slate-400">Diplotype:</span> <span className="font-mono text-slate-800">{result.pharmacogenomic_profile.diplotype}</span></div>
+                                    {result.pharmacogenomic_profile.star_alleles?.length > 0 && (
+                                        <div>
+                                            <span className="text-slate-400">Alleles:</span>{' '}
+                                            <span className="font-mono text-slate-800">
+                                                {result.pharmacogenomic_profile.star_alleles.map((a: { allele: string; copies: number; function: string }) => `${a.allele}${a.copies > 1 ? `x${a.copies}` : ''} (${a.function})`).join(' / ')}
+                                            </span>
+                                        </div>
+                                    )}
+                                    {result.pharmacogenomic_profile.call_source && (
+                                        <div>
+                                            <span className="text-slate-400">Source:</span>{' '}
+                                            <span className={result.pharmacogenomic_profile.call_source === 'tag-snp' ? 'text-warning font-semibold' : 'text-slate-800'}>
+                                                {result.pharmacogenomic_profile.call_source === 'tag-snp' ? 'Inferred from tag SNP — confirm with HLA typing' : 'Typed HLA-B alleles'}
+                                            </span>
+                                        </div>
+                                    )}
+                                    {result.pharmacogenomic_profile.hemizygous && (
+                                        <div><span className="text-slate-400">Zygosity:</span> <span className="text-slate-800">Hemizygous (one X chromosome called)</span></div>
+                                    )}
                                     <div><span className="text-slate-400">Activity Score:</span> <span className="font-mono text-slate-800">{result.pharmacogenomic_profile.activity_score ?? 'N/A'}</span></div>
+                                    {result.pharmacogenomic_profile.phenoconversion?.filter((c: { converted: boolean }) => c.converted).map((c: { gene: string; genotypic_phenotype: string; effective_phenotype: string; applied: string }) => (
+                                        <div key={c.gene} className="text-warning font-semibold">
+                                            Phenoconversion: {c.gene} {c.genotypic_phenotype} → {c.effective_phenotype} ({c.applied})
+                                        </div>
+                                    ))}
+                                    {result.pharmacogenomic_profile.copy_number && (
+                                        <div>
+                                            <span className="text-slate-400">Gene Copies:</span>{' '}
+                                            <span className="font-mono text-slate-800">
+                                                {result.pharmacogenomic_profile.copy_number.copies} ({result.pharmacogenomic_profile.copy_number.source === 'request' ? 'supplied' : 'from VCF'})
+                                            </span>
+                                        </div>
+                                    )}
                                     {result.pharmacogenomic_profile.detected_variants && (
                                         <div className="mt-2">
                                             <span className="text-slate-400 block mb-1">Detected Variants:</span>
@@ -74,19 +217,43 @@ function ExpandableRow({ result, idx }: { result: any; idx: number }) {
                                                 {result.pharmacogenomic_profile.detected_variants.map((v: any, vi: number) => (
                                                     <span
                                                         key={vi}
-                                                        className={`px-2 py-0.5 rounded font-mono text-xs ${v.variant_impact === 'Normal_function'
+                                                        className={`px-2 py-0.5 rounded font-mono text-xs ${v.impact === 'Normal_function'
                                                             ? 'bg-success/10 text-success border border-success/20'
-                                                            : v.variant_impact === 'Reduced_function' || v.variant_impact === 'No_function'
+                                                            : v.impact === 'Reduced_function' || v.impact === 'No_function' || v.impact === 'Risk_allele'
                                                                 ? 'bg-danger/10 text-danger border border-danger/20'
                                                                 : 'bg-slate-100 text-slate-500 border border-slate-200'
                                                             }`}
                                                     >
-                                                        {v.rsid}: {v.genotype} ({v.variant_impact?.replace(/_/g, ' ')})
+                                                        {v.rsid}: {v.genotype} ({v.impact?.replace(/_/g, ' ')})
                                                     </span>
                                                 ))}
                                             </div>
                                         </div>
                                     )}
+                                    {result.pharmacogenomic_profile.phase_status === 'ambiguous' && (
+                                        <div className="mt-2">
+                                            <span className="text-slate-400 block mb-1">Unphased calls — possible diplotypes:</span>
+                                            <ul className="space-y-0.5">
+                                                {result.pharmacogenomic_profile.diplotype_candidates.map((c: { diplotype: string; phenotype: string }) => (
+                                                    <li key={c.diplotype} className="font-mono text-slate-700">
+                                                        {c.diplotype}: {c.phenotype}
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                        </div>
+                                    )}
+                                    {result.pharmacogenomic_profile.filtered_calls?.length > 0 && (
+                                        <div className="mt-2">
+                                            <span className="text-slate-400 block mb-1">Rejected Calls (treated as no-call):</span>
+                                            <ul className="space-y-0.5">
+                                                {result.pharmacogenomic_profile.filtered_calls.map((c: { rsid: string; genotype: string; reasons: string[] }) => (
+                                                    <li key={c.rsid} className="font-mono text-warning">
+                                                        {c.rsid} ({c.genotype}): {c.reasons.join('; ')}
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                        </div>
+                                    )}
                                 </div>
                             </div>
 
@@ -98,11 +265,78 @@ function ExpandableRow({ result, idx }: { result: any; idx: number }) {
                                 <p className="text-xs text-slate-700 leading-relaxed">
                                     {result.llm_generated_explanation.clinician_view}
                                 </p>
+                                {result.pharmacogenomic_profile.contributing_genes?.length > 1 && (
+                                    <div className="mt-2 pt-2 border-t border-slate-100 text-xs">
+                                        <span className="text-slate-400 block mb-1">Genes Considered:</span>
+                                        <ul className="space-y-0.5">
+                                            {result.pharmacogenomic_profile.contributing_genes.map((g: { gene: string; diplotype: string; phenotype: string; drove_recommendation: boolean }) => (
+                                                <li key={g.gene} className={`font-mono ${g.drove_recommendation ? 'text-slate-900 font-semibold' : 'text-slate-500'}`}>
+                                                    {g.gene} {g.diplotype}: {g.phenotype}{g.drove_recommendation ? ' — drove recommendation' : ''}
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    </div>
+                                )}
+                                {result.clinical_recommendation.context_flags?.length > 0 && (
+                                    <div className="mt-2 pt-2 border-t border-slate-100 text-xs">
+                                        <span className="text-slate-400 block mb-1">Patient Context:</span>
+                                        <ul className="space-y-0.5">
+                                            {result.clinical_recommendation.context_flags.map((f: { condition: string; risk: string | null; recommendation: string; sources: CitationView[] }, fi: number) => (
+                                                <li key={fi} className="text-slate-700">
+                                                    <span className={`px-1.5 py-0.5 rounded text-[10px] font-bold border ${getBadgeColor(f.risk ?? 'Advisory')}`}>{(f.risk ?? 'Advisory').toUpperCase()}</span>{' '}
+                                                    <span className="font-semibold text-slate-900">{f.condition}</span> — {f.recommendation}
+                                                    {f.sources.length > 0 && <span className="text-slate-400"> [{f.sources.map(s => s.title).join('; ')}]</span>}
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    </div>
+                                )}
+                                {result.clinical_recommendation.dose_estimate && (
+                                    <div className="mt-2 pt-2 border-t border-slate-100 text-xs">
+                                        <span className="text-slate-400 block mb-1">Estimated Dose ({result.clinical_recommendation.dose_estimate.algorithm}):</span>
+                                        <span className="font-mono text-slate-800 font-semibold">
+                                            {result.clinical_recommendation.dose_estimate.weekly_dose_mg} mg/week (~{result.clinical_recommendation.dose_estimate.daily_dose_mg} mg/day)
+                                        </span>
+                                        {result.clinical_recommendation.dose_estimate.notes.map((note: string, ni: number) => (
+                                            <p key={ni} className="text-slate-500 mt-0.5">{note}</p>
+                                        ))}
+                                    </div>
+                                )}
+                                {result.clinical_recommendation.dose_guidance && (
+                                    <DoseCalculator
+                                        guidance={result.clinical_recommendation.dose_guidance}
+                                        initialDose={result.clinical_recommendation.calculated_dose?.standard_dose}
+                                    />
+                                )}
+                                {(result.clinical_recommendation.alternatives?.length > 0 || result.clinical_recommendation.excluded_alternatives?.length > 0) && (
+                                    <div className="mt-2 pt-2 border-t border-slate-100 text-xs">
+                                        <span className="text-slate-400 block mb-1">Alternatives:</span>
+                                        <ul className="space-y-0.5">
+                                            {result.clinical_recommendation.alternatives.map((a: { drug: string; reason: string; guideline_checked: boolean }) => (
+                                                <li key={a.drug} className="text-slate-700">
+                                                    <span className="font-mono font-semibold text-slate-900">{a.drug}</span> — {a.reason}
+                                                    {!a.guideline_checked && <span className="text-slate-400"> (no pharmacogenomic guideline on the panel)</span>}
+                                                </li>
+                                            ))}
+                                            {result.clinical_recommendation.excluded_alternatives.map((a: { drug: string; risk: string }) => (
+                                                <li key={a.drug} className="text-slate-400 line-through decoration-danger/60">
+                                                    <span className="font-mono">{a.drug}</span> — also flagged for this patient ({a.risk})
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    </div>
+                                )}
                                 {result.risk_assessment.evidence_strength && (
-                                    <div className="mt-2 pt-2 border-t border-slate-100">
-                                        <span className="text-xs text-primary font-semibold">
+                                    <div className="mt-2 pt-2 border-t border-slate-100 text-xs">
+                                        <span className="text-primary font-semibold">
                                             Evidence: {result.risk_assessment.evidence_strength}
                                         </span>
+                                        {result.clinical_recommendation.provenance?.sources.length > 0 && (
+                                            <div className="mt-1">
+                                                <span className="text-slate-400 block mb-1">References:</span>
+                                                <Citations sources={result.clinical_recommendation.provenance.sources} />
+                                            </div>
+                                        )}
                                     </div>
                                 )}
                             </div>
@@ -156,6 +390,17 @@ export default function DoctorDashboard({ data }: DoctorDashboardProps) {
                             <span className="inline-flex items-center gap-1 text-xs px-2 py-1 rounded bg-slate-50 border border-slate-200 text-slate-600">
                                 <Award className="w-3 h-3 text-accent" /> GCI: {gciScore}/100
                             </span>
+                            {data.length > 0 && data[0].quality_metrics.genome_build && (
+                                <span className="inline-flex items-center gap-1 text-xs px-2 py-1 rounded bg-slate-50 border border-slate-200 text-slate-600">
+                                    Build: {data[0].quality_metrics.genome_build}
+                                    {data[0].quality_metrics.genome_build_source === 'override' && ' (override)'}
+                                </span>
+                            )}
+                            {data.length > 0 && data[0].quality_metrics.target_coverage && (
+                                <span className="inline-flex items-center gap-1 text-xs px-2 py-1 rounded bg-slate-50 border border-slate-200 text-slate-600" title="Targeted positions called as variant / called as reference / not covered">
+                                    Targets: {data[0].quality_metrics.target_coverage.called_variant} variant • {data[0].quality_metrics.target_coverage.called_reference} reference • {data[0].quality_metrics.target_coverage.uncovered} uncovered
+                                </span>
+                            )}
                         </div>
                     </div>
                 </div>
@@ -45,6 +45,11 @@ function DrugResultCard({ result, idx }: { result: any; idx: number }) {
                         <div className="text-xs text-slate-500 mt-0.5 font-medium">
                             Gene: {result.pharmacogenomic_profile.primary_gene} • Phenotype: {result.pharmacogenomic_profile.phenotype}
                         </div>
+                        {result.risk_assessment.context_modified && (
+                            <div className="text-xs text-warning mt-0.5 font-semibold">
+                                Changed by your health details, not only your genes
+                            </div>
+                        )}
                     </div>
                 </div>
                 <div className="flex items-center gap-4">
@@ -96,6 +101,20 @@ function DrugResultCard({ result, idx }: { result: any; idx: number }) {
                             </div>
                         </div>
 
+                        {result.clinical_recommendation.context_flags?.length > 0 && (
+                            <div className="flex items-start gap-3">
+                                <div className="mt-1"><HeartPulse className="w-5 h-5 text-warning" /></div>
+                                <div>
+                                    <span className="text-xs text-slate-500 uppercase font-semibold">Because of Your Health Details</span>
+                                    {result.clinical_recommendation.context_flags.map((f: { condition: string; recommendation: string }, fi: number) => (
+                                        <p key={fi} className="text-slate-800 font-medium mt-0.5">
+                                            {f.recommendation} <span className="text-slate-500">({f.condition})</span>
+                                        </p>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+
                         <div className="flex items-start gap-3">
                             <div className="mt-1"><Activity className="w-5 h-5 text-slate-400" /></div>
                             <div>
@@ -2,15 +2,36 @@
 
 import { useState, useRef } from 'react';
 import { UploadCloud, CheckCircle2, FileText, Database, FileCode2, AlertTriangle, X, Plus } from 'lucide-react';
+import { readTextPrefix } from '@/lib/compression';
+import { validateVCFText, ValidationReport } from '@/lib/vcfValidation';
+import { detectGenotypeFormat } from '@/lib/rawGenotypeParser';
+import type { GenotypeFileFormat } from '@/lib/vcfParser';
+import { KNOWN_DRUGS, getDrugGuideline } from '@/lib/knowledgeBase';
+import { resolveDrugName } from '@/lib/drugNames';
 
 interface UploadModalProps {
-    onAnalyze: (file: File, drugs: string) => void;
+    onAnalyze: (file: File, drugs: string, sample: string, fields: Record<string, string>) => void;
     isAnalyzing: boolean;
 }
 
-const KNOWN_DRUGS = [
-    'CODEINE', 'WARFARIN', 'CLOPIDOGREL', 'SIMVASTATIN', 'AZATHIOPRINE', 'FLUOROURACIL',
-    'AMIODARONE', 'CITALOPRAM', 'OMEPRAZOLE', 'PHENYTOIN'
+const ACCEPTED_EXTENSIONS = ['.vcf', '.vcf.gz', '.vcf.bgz', '.txt', '.txt.gz'];
+
+const RAW_FORMAT_LABELS: Record<Exclude<GenotypeFileFormat, 'vcf'>, string> = {
+    '23andme': '23andMe',
+    ancestrydna: 'AncestryDNA'
+};
+
+// Enough to reach the #CHROM line past a full GRCh38 contig header
+const HEADER_SNIFF_CHARS = 256 * 1024;
+
+const MAX_LISTED_ISSUES = 10;
+
+// Numeric patient context (API field names); age, height and weight are also the warfarin dose covariates
+const PATIENT_CONTEXT_FIELDS = [
+    { name: 'age', label: 'Age (years)', placeholder: '65' },
+    { name: 'height_cm', label: 'Height (cm)', placeholder: '170' },
+    { name: 'weight_kg', label: 'Weight (kg)', placeholder: '80' },
+    { name: 'egfr', label: 'eGFR', placeholder: '90' }
 ];
 
 export default function UploadModal({ onAnalyze, isAnalyzing }: UploadModalProps) {
@@ -20,6 +41,15 @@ export default function UploadModal({ onAnalyze, isAnalyzing }: UploadModalProps
     const [selectedDrugs, setSelectedDrugs] = useState<string[]>(KNOWN_DRUGS);
     const [customDrugInput, setCustomDrugInput] = useState('');
     const [drugInputError, setDrugInputError] = useState<string | null>(null);
+    const [drugSuggestions, setDrugSuggestions] = useState<string[]>([]);
+    const [drugResolutionNote, setDrugResolutionNote] = useState<string | null>(null);
+    const [sampleNames, setSampleNames] = useState<string[]>([]);
+    const [selectedSample, setSelectedSample] = useState('all');
+    const [validationReport, setValidationReport] = useState<ValidationReport | null>(null);
+    const [fileFormat, setFileFormat] = useState<GenotypeFileFormat>('vcf');
+    const [patientContext, setPatientContext] = useState<Record<string, string>>({});
+    const [hlaTyping, setHlaTyping] = useState('');
+    const [medications, setMedications] = useState('');
     const fileInputRef = useRef<HTMLInputElement>(null);
 
     const toggleDrug = (drug: string) => {
@@ -32,22 +62,33 @@ export default function UploadModal({ onAnalyze, isAnalyzing }: UploadModalProps
         });
     };
 
-    const addCustomDrug = () => {
-        const name = customDrugInput.trim().toUpperCase();
+    // Brand names, salts, abbreviations and combinations are resolved to the guideline drugs they fall under
+    const addCustomDrug = (value: string = customDrugInput) => {
+        const name = value.trim();
+        setDrugSuggestions([]);
+        setDrugResolutionNote(null);
         if (!name) {
             setDrugInputError('Please enter a drug name.');
             return;
         }
-        if (!/^[A-Z]+$/.test(name)) {
-            setDrugInputError('Drug name must contain letters only.');
+        const resolution = resolveDrugName(name);
+        if (resolution.method === 'unresolved') {
+            setDrugSuggestions(resolution.suggestions);
+            setDrugInputError(`${name} is not in the drug dictionary.`);
             return;
         }
-        if (selectedDrugs.includes(name)) {
-            setDrugInputError(`${name} is already selected.`);
+        if (resolution.analyzedAs.length === 0) {
+            setDrugInputError(resolution.notes.join(' '));
+            return;
+        }
+        const added = resolution.analyzedAs.filter(d => !selectedDrugs.includes(d));
+        if (added.length === 0) {
+            setDrugInputError(`${resolution.analyzedAs.join(', ')} already selected.`);
             return;
         }
         setDrugInputError(null);
-        setSelectedDrugs(prev => [...prev, name]);
+        setDrugResolutionNote([`${name} → ${resolution.analyzedAs.join(', ')}`, ...resolution.notes].join(' '));
+        setSelectedDrugs(prev => [...prev, ...added]);
         setCustomDrugInput('');
     };
 
@@ -84,12 +125,17 @@ export default function UploadModal({ onAnalyze, isAnalyzing }: UploadModalProps
         }
     };
 
-    const validateAndSetFile = (file: File) => {
+    const validateAndSetFile = async (file: File) => {
         setError(null);
         setSelectedFile(null);
-
-        if (!file.name.toLowerCase().endsWith('.vcf')) {
-            setError('Invalid file type. Please upload a file with the .vcf extension.');
+        setSampleNames([]);
+        setSelectedSample('all');
+        setValidationReport(null);
+        setFileFormat('vcf');
+
+        const lowerName = file.name.toLowerCase();
+        if (!ACCEPTED_EXTENSIONS.some(ext => lowerName.endsWith(ext))) {
+            setError('Invalid file type. Please upload a .vcf file, a gzip/bgzip-compressed .vcf.gz file, or a 23andMe / AncestryDNA raw data .txt file.');
             return;
         }
 
@@ -98,36 +144,66 @@ export default function UploadModal({ onAnalyze, isAnalyzing }: UploadModalProps
             return;
         }
 
-        if (file.size > 50 * 1024 * 1024) {
-            setError('File is too large (>50MB). For edge processing, please upload a smaller VCF.');
+        // Read (and decompress if needed) only the header region to validate VCF content
+        let text = '';
+        try {
+            text = await readTextPrefix(file.stream(), HEADER_SNIFF_CHARS);
+        } catch {
+            setError('Could not read the uploaded file. If it is compressed, make sure it is a valid gzip or bgzip archive.');
             return;
         }
 
-        // Read first 2KB to validate VCF content
-        const reader = new FileReader();
-        reader.onload = (e) => {
-            const text = (e.target?.result as string) || '';
-
-            if (!text.includes('##fileformat=VCF')) {
-                setError(
-                    'Invalid VCF content: this file does not appear to be a valid VCF. ' +
-                    'Expected a "##fileformat=VCF" header at the start of the file. ' +
-                    'Please ensure you are uploading a proper Variant Call Format file.'
-                );
-                return;
-            }
-
-            // File is valid
+        // Consumer raw-data exports have no VCF header; the API converts their rows
+        const isPrefix = text.length >= HEADER_SNIFF_CHARS;
+        const format = detectGenotypeFormat(text.split('\n').slice(0, isPrefix ? -1 : undefined));
+        if (format && format !== 'vcf') {
+            setFileFormat(format);
             setSelectedFile(file);
-        };
-        reader.onerror = () => {
-            setError('Could not read the uploaded file. Please try again.');
-        };
-        // Only read first 2KB for efficiency
-        reader.readAsText(file.slice(0, 2048));
+            return;
+        }
+
+        // Validate the header and the records that fit in the sniffed prefix
+        const { header, report } = validateVCFText(text, isPrefix);
+
+        if (report.counts.MISSING_FILEFORMAT) {
+            setError(
+                'Invalid VCF content: this file does not appear to be a valid VCF. ' +
+                'Expected a "##fileformat=VCF" header at the start of the file. ' +
+                'Please ensure you are uploading a proper Variant Call Format file or a 23andMe / AncestryDNA raw data export.'
+            );
+            return;
+        }
+
+        const columnHeaderError = report.errors.find(issue =>
+            issue.code === 'INVALID_COLUMN_HEADER' || (issue.code === 'MISSING_COLUMN_HEADER' && !isPrefix)
+        );
+        if (columnHeaderError) {
+            setError(`Invalid VCF content: ${columnHeaderError.message}`);
+            return;
+        }
+
+        // Record-level problems do not block the upload; they are listed so users
+        // know why parts of the file may be skipped
+        if (report.errorCount + report.warningCount > 0) setValidationReport(report);
+
+        // Multi-sample VCFs let the user pick one sample or analyse all of them
+        setSampleNames(header.samples);
+
+        // File is valid
+        setSelectedFile(file);
     };
 
-    const customDrugs = selectedDrugs.filter(d => !KNOWN_DRUGS.includes(d));
+    // HLA-B typing is offered when a selected drug's guideline reads an HLA-B risk allele
+    const needsHla = selectedDrugs.some(d => getDrugGuideline(d)?.genes.some(g => g.startsWith('HLA-')));
+
+    const setContextField = (name: string, value: string) => setPatientContext(prev => ({ ...prev, [name]: value }));
+
+    // Optional request fields: patient context, HLA typing and co-medications, only when relevant and filled in
+    const suppliedFields = {
+        ...Object.fromEntries(Object.entries(patientContext).filter(([, value]) => value.trim() !== '')),
+        ...(needsHla && hlaTyping.trim() !== '' ? { hla_b: hlaTyping.trim() } : {}),
+        ...(medications.trim() !== '' ? { medications: medications.trim() } : {})
+    };
 
     return (
         <div className="w-full max-w-2xl mx-auto bg-white rounded-2xl p-8 border border-slate-200 shadow-sm relative overflow-hidden transition-all">
@@ -138,7 +214,7 @@ export default function UploadModal({ onAnalyze, isAnalyzing }: UploadModalProps
                 </div>
                 <h2 className="text-3xl font-black mb-2 text-slate-900 tracking-tight">Clinical VCF Analysis</h2>
                 <p className="text-slate-500 max-w-md mx-auto leading-relaxed">
-                    Upload a raw uncompressed <span className="text-primary font-mono font-bold">.vcf</span> file to process pharmacogenomic phenotypes locally.
+                    Upload a <span className="text-primary font-mono font-bold">.vcf</span>, bgzipped <span className="text-primary font-mono font-bold">.vcf.gz</span> or 23andMe / AncestryDNA raw data file to process pharmacogenomic phenotypes locally.
                     <br /><span className="text-xs mt-2 block opacity-70 border-t border-slate-200 pt-2 text-slate-400">HIPAA Compliant • Runs entirely edge-side • No data retained</span>
                 </p>
             </div>
@@ -160,7 +236,7 @@ export default function UploadModal({ onAnalyze, isAnalyzing }: UploadModalProps
                     id="vcf-upload"
                     type="file"
                     className="hidden"
-                    accept=".vcf"
+                    accept=".vcf,.gz,.bgz,.txt"
                     onChange={handleChange}
                 />
 
@@ -181,7 +257,7 @@ export default function UploadModal({ onAnalyze, isAnalyzing }: UploadModalProps
                         <UploadCloud className={`w-16 h-16 mb-4 transition-colors ${dragActive ? 'text-primary' : 'text-slate-400'}`} />
                         <h3 className="text-lg font-bold text-slate-800 mb-2">Drag & Drop VCF File</h3>
                         <p className="text-slate-500">or click to browse local files</p>
-                        <p className="text-xs text-slate-400 mt-2">Must be a valid <code className="bg-slate-100 px-1 rounded">.vcf</code> file with <code className="bg-slate-100 px-1 rounded">##fileformat=VCF</code> header</p>
+                        <p className="text-xs text-slate-400 mt-2">Must be a valid <code className="bg-slate-100 px-1 rounded">.vcf</code> or <code className="bg-slate-100 px-1 rounded">.vcf.gz</code> file with <code className="bg-slate-100 px-1 rounded">##fileformat=VCF</code> header, or an unzipped 23andMe / AncestryDNA <code className="bg-slate-100 px-1 rounded">.txt</code> export</p>
                     </div>
                 )}
             </div>
@@ -201,6 +277,52 @@ export default function UploadModal({ onAnalyze, isAnalyzing }: UploadModalProps
             {selectedFile && !error && (
                 <div className="mt-8 relative z-10 space-y-6">
 
+                    {/* Consumer array caveat — coverage is limited to the positions on the chip */}
+                    {fileFormat !== 'vcf' && (
+                        <div className="p-4 rounded-xl bg-warning/10 border border-warning/20 text-sm">
+                            <p className="font-semibold text-slate-800 mb-1 flex items-center gap-2">
+                                <AlertTriangle className="w-4 h-4 text-warning" />
+                                {RAW_FORMAT_LABELS[fileFormat]} raw data detected
+                            </p>
+                            <p className="text-xs text-slate-500">Genotyping arrays only test a fixed set of positions. Variants missing from the array are reported as not found, copy-number changes are not detected, and results should be confirmed with a clinical-grade test.</p>
+                        </div>
+                    )}
+
+                    {/* Validation Warnings — non-blocking issues found in the sniffed part of the file */}
+                    {validationReport && (
+                        <div className="p-4 rounded-xl bg-warning/10 border border-warning/20 text-sm">
+                            <p className="font-semibold text-slate-800 mb-1 flex items-center gap-2">
+                                <AlertTriangle className="w-4 h-4 text-warning" />
+                                {validationReport.errorCount + validationReport.warningCount} validation issue(s) in the first part of the file
+                            </p>
+                            <p className="text-xs text-slate-500 mb-2">Affected records may be skipped during analysis. The full report is returned with the results.</p>
+                            <ul className="space-y-1 text-xs text-slate-600 font-mono max-h-32 overflow-y-auto">
+                                {[...validationReport.errors, ...validationReport.warnings].slice(0, MAX_LISTED_ISSUES).map((issue, i) => (
+                                    <li key={i}>
+                                        <span className={issue.severity === 'error' ? 'text-danger font-bold' : 'text-warning font-bold'}>{issue.line !== null ? `Line ${issue.line}` : 'File'}:</span> {issue.message}
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+
+                    {/* Sample Section — only for multi-sample VCFs */}
+                    {sampleNames.length > 1 && (
+                        <div>
+                            <h3 className="text-slate-500 text-sm font-semibold uppercase tracking-wider mb-3">Samples to Analyze</h3>
+                            <select
+                                value={selectedSample}
+                                onChange={(e) => setSelectedSample(e.target.value)}
+                                className="w-full px-4 py-2 rounded-lg border border-slate-200 bg-slate-50 text-sm text-slate-800 focus:outline-none focus:ring-2 focus:ring-primary/30 focus:border-primary"
+                            >
+                                <option value="all">All samples ({sampleNames.length})</option>
+                                {sampleNames.map(name => (
+                                    <option key={name} value={name}>{name}</option>
+                                ))}
+                            </select>
+                        </div>
+                    )}
+
                     {/* Drug Section */}
                     <div>
                         <h3 className="text-slate-500 text-sm font-semibold uppercase tracking-wider mb-3">Target Drugs to Analyze</h3>
@@ -211,14 +333,14 @@ export default function UploadModal({ onAnalyze, isAnalyzing }: UploadModalProps
                                 <input
                                     type="text"
                                     value={customDrugInput}
-                                    onChange={(e) => { setCustomDrugInput(e.target.value); setDrugInputError(null); }}
+                                    onChange={(e) => { setCustomDrugInput(e.target.value); setDrugInputError(null); setDrugSuggestions([]); }}
                                     onKeyDown={handleDrugKeyDown}
-                                    placeholder="Add custom drug (e.g. METFORMIN)"
+                                    placeholder="Add a drug by generic or brand name (e.g. Plavix, 5-FU)"
                                     className="w-full px-4 py-2 rounded-lg border border-slate-200 bg-slate-50 text-sm text-slate-800 focus:outline-none focus:ring-2 focus:ring-primary/30 focus:border-primary placeholder:text-slate-400"
                                 />
                             </div>
                             <button
-                                onClick={addCustomDrug}
+                                onClick={() => addCustomDrug()}
                                 className="flex items-center gap-1 px-4 py-2 rounded-lg bg-primary/10 text-primary border border-primary/20 text-sm font-semibold hover:bg-primary/20 transition-colors"
                             >
                                 <Plus className="w-4 h-4" /> Add
@@ -232,6 +354,26 @@ export default function UploadModal({ onAnalyze, isAnalyzing }: UploadModalProps
                             </p>
                         )}
 
+                        {/* Close matches for an unknown name */}
+                        {drugSuggestions.length > 0 && (
+                            <div className="flex flex-wrap items-center gap-1.5 mb-2 text-xs text-slate-500">
+                                Did you mean
+                                {drugSuggestions.map(suggestion => (
+                                    <button
+                                        key={suggestion}
+                                        onClick={() => addCustomDrug(suggestion)}
+                                        className="px-2 py-0.5 rounded-full bg-slate-100 text-slate-700 border border-slate-200 hover:bg-primary/10 hover:text-primary"
+                                    >
+                                        {suggestion}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+
+                        {drugResolutionNote && (
+                            <p className="text-xs text-slate-500 mb-2">{drugResolutionNote}</p>
+                        )}
+
                         {/* Known Drug Pills */}
                         <div className="flex flex-wrap gap-2">
                             {KNOWN_DRUGS.map(drug => (
@@ -249,19 +391,6 @@ export default function UploadModal({ onAnalyze, isAnalyzing }: UploadModalProps
                                     )}
                                 </button>
                             ))}
-
-                            {/* Custom added drug pills */}
-                            {customDrugs.map(drug => (
-                                <span
-                                    key={drug}
-                                    className="px-3 py-1.5 rounded-full text-xs font-bold bg-accent/20 text-accent border border-accent/40 flex items-center gap-1.5"
-                                >
-                                    {drug}
-                                    <button onClick={() => toggleDrug(drug)} className="hover:opacity-70">
-                                        <X className="w-3 h-3" />
-                                    </button>
-                                </span>
-                            ))}
                         </div>
 
                         {selectedDrugs.length === 0 && (
@@ -271,10 +400,81 @@ export default function UploadModal({ onAnalyze, isAnalyzing }: UploadModalProps
                         )}
                     </div>
 
+                    {/* Patient Context — optional; non-genetic conditions that can change a recommendation */}
+                    <div>
+                        <h3 className="text-slate-500 text-sm font-semibold uppercase tracking-wider mb-1">Patient Context (optional)</h3>
+                        <p className="text-xs text-slate-400 mb-3">Age, pregnancy, breastfeeding and eGFR apply non-genetic contraindications and limits (e.g. codeine and tramadol under 12 years). Age, height and weight also enable the genotype-guided warfarin dose estimate.</p>
+                        <div className="grid grid-cols-4 gap-2">
+                            {PATIENT_CONTEXT_FIELDS.map(field => (
+                                <label key={field.name} className="text-xs text-slate-500">
+                                    {field.label}
+                                    <input
+                                        type="number"
+                                        min={0}
+                                        value={patientContext[field.name] ?? ''}
+                                        onChange={(e) => setContextField(field.name, e.target.value)}
+                                        placeholder={field.placeholder}
+                                        className="mt-1 w-full px-3 py-2 rounded-lg border border-slate-200 bg-slate-50 text-sm text-slate-800 focus:outline-none focus:ring-2 focus:ring-primary/30 focus:border-primary placeholder:text-slate-400"
+                                    />
+                                </label>
+                            ))}
+                        </div>
+                        <div className="flex flex-wrap items-center gap-4 mt-2 text-xs text-slate-500">
+                            <select
+                                value={patientContext.sex ?? ''}
+                                onChange={(e) => setPatientContext(prev => ({ ...prev, sex: e.target.value, ...(e.target.value === 'male' ? { pregnant: '', lactating: '' } : {}) }))}
+                                className="px-3 py-2 rounded-lg border border-slate-200 bg-slate-50 text-sm text-slate-800 focus:outline-none focus:ring-2 focus:ring-primary/30 focus:border-primary"
+                            >
+                                <option value="">Sex not specified</option>
+                                <option value="female">Female</option>
+                                <option value="male">Male</option>
+                            </select>
+                            {patientContext.sex !== 'male' && [['pregnant', 'Pregnant'], ['lactating', 'Breastfeeding']].map(([name, label]) => (
+                                <label key={name} className="flex items-center gap-2 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={patientContext[name] === 'true'}
+                                        onChange={(e) => setContextField(name, e.target.checked ? 'true' : '')}
+                                        className="w-4 h-4 rounded border-slate-300 text-primary focus:ring-primary focus:ring-offset-white"
+                                    />
+                                    {label}
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+
+                    {/* Current Medications — optional; inhibitors and inducers phenoconvert CYP2D6, CYP2C19 and CYP2C9 */}
+                    <div>
+                        <h3 className="text-slate-500 text-sm font-semibold uppercase tracking-wider mb-1">Current Medications (optional)</h3>
+                        <p className="text-xs text-slate-400 mb-3">Enzyme inhibitors and inducers (e.g. paroxetine, fluconazole, rifampin) are applied to the genotype-predicted phenotypes; amiodarone and inducers also enter the warfarin dose estimate.</p>
+                        <input
+                            type="text"
+                            value={medications}
+                            onChange={(e) => setMedications(e.target.value)}
+                            placeholder="e.g. Paxil, omeprazole"
+                            className="w-full px-4 py-2 rounded-lg border border-slate-200 bg-slate-50 text-sm text-slate-800 focus:outline-none focus:ring-2 focus:ring-primary/30 focus:border-primary placeholder:text-slate-400"
+                        />
+                    </div>
+
+                    {/* HLA-B Typing — optional; replaces the tag SNP inference */}
+                    {needsHla && (
+                        <div>
+                            <h3 className="text-slate-500 text-sm font-semibold uppercase tracking-wider mb-1">HLA-B Typing (optional)</h3>
+                            <p className="text-xs text-slate-400 mb-3">Without typed alleles, HLA-B*57:01 and *58:01 are inferred from tag SNPs and *15:02 is reported as unknown.</p>
+                            <input
+                                type="text"
+                                value={hlaTyping}
+                                onChange={(e) => setHlaTyping(e.target.value)}
+                                placeholder="e.g. B*57:01/B*44:02"
+                                className="w-full px-4 py-2 rounded-lg border border-slate-200 bg-slate-50 text-sm text-slate-800 focus:outline-none focus:ring-2 focus:ring-primary/30 focus:border-primary placeholder:text-slate-400"
+                            />
+                        </div>
+                    )}
+
                     {/* Analyze Button */}
                     <button
                         disabled={!selectedFile || isAnalyzing || selectedDrugs.length === 0}
-                        onClick={() => selectedDrugs.length > 0 && onAnalyze(selectedFile, selectedDrugs.join(','))}
+                        onClick={() => selectedDrugs.length > 0 && onAnalyze(selectedFile, selectedDrugs.join(','), selectedSample, suppliedFields)}
                         className={`w-full py-4 rounded-xl font-bold flex items-center justify-center gap-3 transition-all ${!selectedFile || isAnalyzing || selectedDrugs.length === 0
                             ? 'bg-slate-100 text-slate-400 cursor-not-allowed border border-slate-200'
                             : 'bg-primary hover:bg-primary/90 text-white shadow-md border border-primary/20'
@@ -0,0 +1,188 @@
+/**
+ * Transparent gzip / BGZF decompression for uploaded VCFs.
+ * Edge compatible: built only on Web Streams and DecompressionStream.
+ */
+
+// Raised for gzip input that cannot be inflated, so callers can tell it from parse errors
+export class DecompressionError extends Error {
+    name = 'DecompressionError';
+}
+
+const GZIP_MAGIC_1 = 0x1f;
+const GZIP_MAGIC_2 = 0x8b;
+const FLG_FEXTRA = 0x04;
+
+// 10 byte fixed header + 2 byte XLEN + 6 byte BC subfield
+const BGZF_HEADER_LENGTH = 18;
+
+export function isGzip(bytes: Uint8Array): boolean {
+    return bytes.length >= 2 && bytes[0] === GZIP_MAGIC_1 && bytes[1] === GZIP_MAGIC_2;
+}
+
+/**
+ * Returns the total size of the BGZF block at the start of `bytes`, or null
+ * when the member carries no BC extra subfield (i.e. plain gzip).
+ */
+function bgzfBlockSize(bytes: Uint8Array): number | null {
+    if (!isGzip(bytes) || (bytes[3] & FLG_FEXTRA) === 0) return null;
+
+    const xlen = bytes[10] | (bytes[11] << 8);
+    let offset = 12;
+    const end = Math.min(12 + xlen, bytes.length);
+
+    while (offset + 4 <= end) {
+        const si1 = bytes[offset];
+        const si2 = bytes[offset + 1];
+        const slen = bytes[offset + 2] | (bytes[offset + 3] << 8);
+        if (si1 === 66 && si2 === 67 && slen === 2 && offset + 6 <= end) {
+            const bsize = bytes[offset + 4] | (bytes[offset + 5] << 8);
+            return bsize + 1;
+        }
+        offset += 4 + slen;
+    }
+    return null;
+}
+
+function concatBytes(a: Uint8Array, b: Uint8Array): Uint8Array {
+    if (a.length === 0) return b;
+    const out = new Uint8Array(a.length + b.length);
+    out.set(a, 0);
+    out.set(b, a.length);
+    return out;
+}
+
+async function* readAll(stream: ReadableStream<Uint8Array>): AsyncGenerator<Uint8Array> {
+    const reader = stream.getReader();
+    try {
+        while (true) {
+            const { value, done } = await reader.read();
+            if (done) return;
+            yield value;
+        }
+    } finally {
+        reader.releaseLock();
+    }
+}
+
+function inflate(compressed: ReadableStream<Uint8Array>): AsyncGenerator<Uint8Array> {
+    const inflater = new DecompressionStream('gzip') as ReadableWritablePair<Uint8Array, Uint8Array>;
+    return readAll(compressed.pipeThrough(inflater));
+}
+
+function fromChunks(head: Uint8Array, rest?: AsyncGenerator<Uint8Array>): ReadableStream<Uint8Array> {
+    let sentHead = head.length === 0;
+    return new ReadableStream<Uint8Array>({
+        async pull(controller) {
+            if (!sentHead) {
+                sentHead = true;
+                controller.enqueue(head);
+                return;
+            }
+            const next = rest ? await rest.next() : { done: true as const, value: undefined };
+            if (next.done) controller.close();
+            else controller.enqueue(next.value);
+        }
+    });
+}
+
+/**
+ * Decompresses a (possibly multi-member) gzip byte stream.
+ * BGZF blocks declare their own size, so each block is sliced off and inflated
+ * independently as soon as it has arrived. A member without the BGZF size field
+ * hands the remainder of the stream to a single inflater.
+ */
+async function* gunzipMembers(source: AsyncGenerator<Uint8Array>, head: Uint8Array): AsyncGenerator<Uint8Array> {
+    let buffered = head;
+    let exhausted = false;
+
+    const fill = async (min: number) => {
+        while (buffered.length < min && !exhausted) {
+            const next = await source.next();
+            if (next.done) exhausted = true;
+            else buffered = concatBytes(buffered, next.value);
+        }
+        return buffered.length >= min;
+    };
+
+    while (await fill(BGZF_HEADER_LENGTH)) {
+        const blockSize = bgzfBlockSize(buffered);
+        if (blockSize === null) {
+            yield* inflate(fromChunks(buffered, exhausted ? undefined : source));
+            return;
+        }
+        if (!(await fill(blockSize))) {
+            throw new Error('Truncated BGZF block: the compressed file ended unexpectedly.');
+        }
+        const block = buffered.subarray(0, blockSize);
+        buffered = buffered.slice(blockSize);
+        yield* inflate(fromChunks(block));
+    }
+
+    if (buffered.length > 0) {
+        throw new Error('Truncated gzip data: the compressed file ended unexpectedly.');
+    }
+}
+
+async function* decodeBytes(stream: ReadableStream<Uint8Array>): AsyncGenerator<Uint8Array> {
+    const source = readAll(stream);
+    let head: Uint8Array = new Uint8Array(0);
+
+    // Buffer just enough to sniff the gzip magic bytes
+    while (head.length < 2) {
+        const next = await source.next();
+        if (next.done) break;
+        head = concatBytes(head, next.value);
+    }
+
+    if (isGzip(head)) {
+        try {
+            yield* gunzipMembers(source, head);
+        } catch (error) {
+            throw new DecompressionError(error instanceof Error ? error.message : 'corrupt data');
+        }
+        return;
+    }
+
+    if (head.length > 0) yield head;
+    yield* source;
+}
+
+/**
+ * Wraps a raw upload stream so that gzip / BGZF input is decompressed on the fly.
+ * Uncompressed input is passed through untouched.
+ */
+export function decompressIfGzipped(stream: ReadableStream<Uint8Array>): ReadableStream<Uint8Array> {
+    const iterator = decodeBytes(stream);
+    return new ReadableStream<Uint8Array>({
+        async pull(controller) {
+            const next = await iterator.next();
+            if (next.done) controller.close();
+            else controller.enqueue(next.value);
+        },
+        async cancel() {
+            await iterator.return(undefined);
+        }
+    });
+}
+
+/**
+ * Reads (and decompresses if needed) only the first `maxChars` characters of a stream.
+ * Used for cheap header sniffing without loading the whole file.
+ */
+export async function readTextPrefix(stream: ReadableStream<Uint8Array>, maxChars: number): Promise<string> {
+    const reader = decompressIfGzipped(stream).getReader();
+    const decoder = new TextDecoder('utf-8');
+    let text = '';
+
+    try {
+        while (text.length < maxChars) {
+            const { value, done } = await reader.read();
+            if (done) break;
+            text += decoder.decode(value, { stream: true });
+        }
+    } finally {
+        await reader.cancel();
+    }
+
+    return text.slice(0, maxChars);
+}
@@ -0,0 +1,142 @@
+/**
+ * Applies a guideline rule's structured dose guidance to the standard dose a
+ * prescriber intends to give. Weight- and BSA-based regimens (thiopurines,
+ * fluoropyrimidines, irinotecan, tacrolimus) are converted to mg when the
+ * patient's weight, or BSA (supplied or estimated from height and weight), is known.
+ */
+
+import { DoseAmount, DoseBasis, DoseGuidance } from './knowledgeBase';
+
+export interface DoseCalculatorInput {
+    standardDose: number; // Intended standard daily dose, in the drug's dose basis
+    weightKg?: number;
+    heightCm?: number;
+    bsaM2?: number; // Takes precedence over the estimate from height and weight
+}
+
+export interface AdjustedDose {
+    basis: DoseBasis;
+    standardDose: number;
+    percentOfStandard: [number, number];
+    adjustedDose: [number, number]; // Per dosing day, in the dose basis
+    adjustedMg: [number, number] | null; // Per dosing day; null when the weight or BSA needed is missing
+    weightKg: number | null;
+    bsaM2: number | null;
+    bsaSource: 'supplied' | 'mosteller' | null;
+    cappedAt: DoseAmount | null; // The maximum daily dose, when it narrowed the range
+    frequency: string | null;
+    notes: string[];
+}
+
+// ---------------------------------------------------------
+// BODY SIZE
+// ---------------------------------------------------------
+
+/**
+ * Body surface area (m2) by the Mosteller formula.
+ */
+export function mostellerBsa(heightCm: number, weightKg: number): number {
+    return Math.sqrt(heightCm * weightKg / 3600);
+}
+
+/**
+ * Multiplier converting a dose in `basis` units to mg, or null when the body size
+ * it needs is unknown.
+ */
+function mgPerBasisUnit(basis: DoseBasis, weightKg: number | null, bsaM2: number | null): number | null {
+    if (basis === 'mg') return 1;
+    if (basis === 'mg/kg') return weightKg;
+    return bsaM2;
+}
+
+function round(value: number, decimals: number): number {
+    const factor = 10 ** decimals;
+    return Math.round(value * factor) / factor;
+}
+
+// ---------------------------------------------------------
+// DESCRIPTION
+// ---------------------------------------------------------
+
+function formatAmount(amount: DoseAmount): string {
+    return `${amount.value} ${amount.unit}/day`;
+}
+
+/**
+ * One-line summary of the guidance, e.g. "Give 25-50% of the standard dose;
+ * maximum 20 mg/day. Titrate to INR."
+ */
+export function describeDoseGuidance(guidance: DoseGuidance): string {
+    const parts: string[] = [];
+    if (guidance.percentOfStandard) {
+        const [min, max] = guidance.percentOfStandard;
+        parts.push(`Give ${min === max ? min : `${min}-${max}`}% of the standard dose`);
+    }
+    if (guidance.frequency) parts.push(guidance.frequency.toLowerCase());
+    if (guidance.startingDose) parts.push(`start at ${formatAmount(guidance.startingDose)}`);
+    if (guidance.maxDailyDose) parts.push(`maximum ${formatAmount(guidance.maxDailyDose)}`);
+    const summary = parts.join('; ');
+    return `${summary.charAt(0).toUpperCase()}${summary.slice(1)}. ${guidance.titration}`;
+}
+
+// ---------------------------------------------------------
+// CALCULATOR
+// ---------------------------------------------------------
+
+/**
+ * Adjusted daily dose range for the intended standard dose. Guidance without a
+ * percentage (a dose cap only) keeps the standard dose, limited by the cap.
+ */
+export function calculateAdjustedDose(basis: DoseBasis, guidance: DoseGuidance, input: DoseCalculatorInput): AdjustedDose {
+    const notes: string[] = [];
+    const percentOfStandard = guidance.percentOfStandard ?? [100, 100];
+    const weightKg = input.weightKg ?? null;
+
+    let bsaM2: number | null = null;
+    let bsaSource: AdjustedDose['bsaSource'] = null;
+    if (input.bsaM2 !== undefined) {
+        bsaM2 = input.bsaM2;
+        bsaSource = 'supplied';
+    } else if (input.heightCm !== undefined && input.weightKg !== undefined) {
+        bsaM2 = round(mostellerBsa(input.heightCm, input.weightKg), 2);
+        bsaSource = 'mosteller';
+    }
+
+    const toMg = mgPerBasisUnit(basis, weightKg, bsaM2);
+    if (toMg === null) {
+        notes.push(`Supply ${basis === 'mg/kg' ? 'weight' : 'BSA, or height and weight,'} to convert the ${basis} dose to mg.`);
+    }
+
+    // The cap is given in mg or in the drug's dose basis; mg caps on weight- or BSA-based doses need the body size
+    let adjustedDose = percentOfStandard.map(p => input.standardDose * p / 100) as [number, number];
+    let cappedAt: DoseAmount | null = null;
+    const cap = guidance.maxDailyDose;
+    if (cap) {
+        const capInBasis = cap.unit === basis ? cap.value : toMg === null ? null : cap.value / toMg;
+        if (capInBasis === null) {
+            notes.push(`The ${formatAmount(cap)} maximum could not be checked without the patient's body size.`);
+        } else if (adjustedDose[1] > capInBasis) {
+            adjustedDose = adjustedDose.map(d => Math.min(d, capInBasis)) as [number, number];
+            cappedAt = cap;
+            notes.push(`Limited by the ${formatAmount(cap)} maximum.`);
+        }
+    }
+    const adjustedMg = toMg === null ? null : adjustedDose.map(d => round(d * toMg, 1)) as [number, number];
+
+    if (guidance.startingDose) notes.push(`The guideline names a starting dose of ${formatAmount(guidance.startingDose)}.`);
+    if (guidance.frequency) notes.push(`Dosing schedule: ${guidance.frequency.toLowerCase()}.`);
+
+    return {
+        basis,
+        standardDose: input.standardDose,
+        percentOfStandard,
+        adjustedDose: adjustedDose.map(d => round(d, 2)) as [number, number],
+        adjustedMg,
+        weightKg,
+        bsaM2,
+        bsaSource,
+        cappedAt,
+        frequency: guidance.frequency ?? null,
+        notes
+    };
+}
@@ -0,0 +1,304 @@
+/**
+ * Drug name resolution: maps user input (generic names, brand names, salts,
+ * abbreviations, combination products) to canonical ingredient names using the
+ * bundled dictionary in src/data/drugDictionary.json, and to the knowledge-base
+ * drugs whose guidelines apply. Unknown names get close-match suggestions.
+ */
+
+import drugDictionaryData from '../data/drugDictionary.json';
+import { KnowledgeBase, KNOWLEDGE_BASE } from './knowledgeBase';
+
+export interface DrugIngredient {
+    brands: string[];
+    synonyms: string[]; // Alternative generic names and common abbreviations
+    prodrugOf?: string; // Active drug whose guideline applies when the ingredient has none
+}
+
+export interface DrugDictionary {
+    version: string;
+    updated: string;
+    description?: string;
+    ingredients: Record<string, DrugIngredient>; // Keyed by upper-case generic name
+    combinations: Record<string, string[]>; // Combination product name -> ingredients
+}
+
+export type DrugMatchMethod = 'generic' | 'brand' | 'synonym' | 'combination' | 'unresolved';
+
+export interface DrugResolution {
+    input: string;
+    method: DrugMatchMethod;
+    matchedName: string | null; // Dictionary name the input matched (each part's, joined, for free-text combinations)
+    ignoredTerms: string[]; // Salt, dosage-form and strength terms stripped before matching
+    ingredients: string[]; // Canonical ingredient names
+    analyzedAs: string[]; // Knowledge-base drugs evaluated for the input (prodrugs map to their active drug)
+    notes: string[];
+    suggestions: string[]; // Close dictionary names, only for unresolved input
+}
+
+// Salt and dosage-form words that do not change which guideline applies
+const IGNORED_TERMS = new Set([
+    'HYDROCHLORIDE', 'HCL', 'HYDROBROMIDE', 'BISULFATE', 'HYDROGEN', 'SULFATE', 'SULPHATE', 'PHOSPHATE',
+    'SODIUM', 'POTASSIUM', 'CALCIUM', 'MAGNESIUM', 'MESYLATE', 'BESYLATE', 'MALEATE', 'SUCCINATE',
+    'CHLORIDE', 'TARTRATE', 'CITRATE', 'ACETATE', 'FUMARATE', 'HYDRATE', 'MONOHYDRATE', 'DIHYDRATE', 'HEMIHYDRATE',
+    'TABLET', 'TABLETS', 'CAPSULE', 'CAPSULES', 'INJECTION', 'INFUSION', 'ORAL', 'SOLUTION', 'SUSPENSION',
+    'IV', 'ER', 'XR', 'XL', 'SR', 'CR', 'DR'
+]);
+
+const STRENGTH = /\b\d+(?:\.\d+)?\s*(?:MG|MCG|UG|G|ML|%)(?=\s|\/|$)/g;
+
+// Separators of free-text combinations ("acetaminophen/codeine", "abacavir + lamivudine")
+const COMBINATION_SEPARATOR = /\s*(?:\/|\+|&|\bAND\b|\bWITH\b)\s*/;
+
+const MAX_SUGGESTIONS = 5;
+
+// ---------------------------------------------------------
+// VALIDATION
+// ---------------------------------------------------------
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every(v => typeof v === 'string' && v.trim() !== '');
+}
+
+/**
+ * Checks dictionary content: upper-case ingredient keys, string name lists,
+ * prodrug and combination references to listed ingredients, and no name that
+ * would resolve to two different ingredients. Returns one message per problem.
+ */
+export function validateDrugDictionary(data: unknown): string[] {
+    const errors: string[] = [];
+    if (!isRecord(data)) return ['Drug dictionary must be a JSON object.'];
+    if (typeof data.version !== 'string' || data.version.trim() === '') errors.push('version: must be a non-empty string.');
+    if (!isRecord(data.ingredients)) return [...errors, 'ingredients: must be an object keyed by generic name.'];
+    if (!isRecord(data.combinations)) return [...errors, 'combinations: must be an object keyed by product name.'];
+
+    const ingredients = data.ingredients;
+    const owners = new Map<string, string>();
+    const claim = (name: string, owner: string, path: string) => {
+        const key = lookupKey(name);
+        const existing = owners.get(key);
+        if (existing !== undefined && existing !== owner) errors.push(`${path}: "${name}" already names ${existing}.`);
+        owners.set(key, owner);
+    };
+
+    for (const [name, entry] of Object.entries(ingredients)) {
+        const path = `ingredients.${name}`;
+        if (name !== name.toUpperCase()) errors.push(`${path}: generic names must be upper case.`);
+        if (!isRecord(entry)) {
+            errors.push(`${path}: must be an object.`);
+            continue;
+        }
+        claim(name, name, path);
+        for (const field of ['brands', 'synonyms'] as const) {
+            if (!isStringArray(entry[field])) {
+                errors.push(`${path}.${field}: must be an array of names.`);
+                continue;
+            }
+            for (const alias of entry[field] as string[]) claim(alias, name, `${path}.${field}`);
+        }
+        if (entry.prodrugOf !== undefined && (typeof entry.prodrugOf !== 'string' || !(entry.prodrugOf in ingredients))) {
+            errors.push(`${path}.prodrugOf: must name a listed ingredient.`);
+        }
+    }
+
+    for (const [product, parts] of Object.entries(data.combinations)) {
+        const path = `combinations.${product}`;
+        if (!isStringArray(parts) || parts.length < 2) {
+            errors.push(`${path}: must list at least two ingredients.`);
+            continue;
+        }
+        for (const part of parts) {
+            if (!(part in ingredients)) errors.push(`${path}: "${part}" is not a listed ingredient.`);
+        }
+        claim(product, product, path);
+    }
+    return errors;
+}
+
+/**
+ * Validates and returns dictionary content. Throws listing every problem.
+ */
+export function loadDrugDictionary(data: unknown): DrugDictionary {
+    const errors = validateDrugDictionary(data);
+    if (errors.length > 0) {
+        throw new Error(`Invalid drug dictionary:\n- ${errors.join('\n- ')}`);
+    }
+    return data as DrugDictionary;
+}
+
+export const DRUG_DICTIONARY = loadDrugDictionary(drugDictionaryData);
+
+// ---------------------------------------------------------
+// NAME INDEX
+// ---------------------------------------------------------
+
+interface NameEntry {
+    name: string; // As written in the dictionary
+    method: Exclude<DrugMatchMethod, 'unresolved'>;
+    ingredients: string[];
+}
+
+/**
+ * Upper-cases and drops trademark symbols and surplus whitespace.
+ */
+export function normalizeDrugName(name: string): string {
+    return name.toUpperCase().replace(/[®™©]/g, '').replace(/\s+/g, ' ').trim();
+}
+
+// Punctuation and spacing are ignored when matching ("5-FU", "5 FU" and "5FU" are one name)
+function lookupKey(name: string): string {
+    return normalizeDrugName(name).replace(/[^A-Z0-9#]/g, '');
+}
+
+function buildNameIndex(dictionary: DrugDictionary, knowledgeBase: KnowledgeBase): Map<string, NameEntry> {
+    const index = new Map<string, NameEntry>();
+    const add = (name: string, entry: NameEntry) => {
+        if (!index.has(lookupKey(name))) index.set(lookupKey(name), entry);
+    };
+    // Generic names first so they win over any alias spelled the same way
+    for (const drug of [...Object.keys(knowledgeBase.drugs), ...Object.keys(dictionary.ingredients)]) {
+        add(drug, { name: drug, method: 'generic', ingredients: [drug] });
+    }
+    for (const [drug, entry] of Object.entries(dictionary.ingredients)) {
+        for (const brand of entry.brands) add(brand, { name: brand, method: 'brand', ingredients: [drug] });
+        for (const synonym of entry.synonyms) add(synonym, { name: synonym, method: 'synonym', ingredients: [drug] });
+    }
+    for (const [product, parts] of Object.entries(dictionary.combinations)) {
+        add(product, { name: product, method: 'combination', ingredients: [...parts] });
+    }
+    return index;
+}
+
+const DEFAULT_INDEX = buildNameIndex(DRUG_DICTIONARY, KNOWLEDGE_BASE);
+
+function nameIndex(dictionary: DrugDictionary, knowledgeBase: KnowledgeBase): Map<string, NameEntry> {
+    return dictionary === DRUG_DICTIONARY && knowledgeBase === KNOWLEDGE_BASE ? DEFAULT_INDEX : buildNameIndex(dictionary, knowledgeBase);
+}
+
+/**
+ * Removes strengths ("75 mg") and salt or dosage-form words, returning the
+ * remaining name and the terms removed.
+ */
+function stripIgnoredTerms(name: string): { name: string; removed: string[] } {
+    const removed = [...(name.match(STRENGTH) ?? []).map(s => s.replace(/\s+/g, ' '))];
+    const words = name.replace(STRENGTH, ' ').split(/\s+/).filter(w => w !== '');
+    const kept = words.filter(w => {
+        if (!IGNORED_TERMS.has(w)) return true;
+        removed.push(w);
+        return false;
+    });
+    // Leftover separators of removed strengths ("500 mg/10 ml")
+    return { name: kept.join(' ').replace(/^[\s/+&,-]+|[\s/+&,-]+$/g, ''), removed };
+}
+
+function lookupName(name: string, index: Map<string, NameEntry>): { entry: NameEntry; removed: string[] } | null {
+    const direct = index.get(lookupKey(name));
+    if (direct) return { entry: direct, removed: [] };
+    const stripped = stripIgnoredTerms(name);
+    const entry = stripped.name !== '' ? index.get(lookupKey(stripped.name)) : undefined;
+    return entry ? { entry, removed: stripped.removed } : null;
+}
+
+// ---------------------------------------------------------
+// SUGGESTIONS
+// ---------------------------------------------------------
+
+// Optimal string alignment distance: a transposed pair of letters ("codiene") costs 1
+function editDistance(a: string, b: string): number {
+    let beforePrevious: number[] = [];
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+            }
+        }
+        beforePrevious = previous;
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+/**
+ * Dictionary names close to `input`: within an edit distance (a transposition
+ * counts as one edit) of about a quarter of the name's length, or starting with
+ * it (three characters or more).
+ * Closest first.
+ */
+export function suggestDrugNames(input: string, dictionary: DrugDictionary = DRUG_DICTIONARY, knowledgeBase: KnowledgeBase = KNOWLEDGE_BASE): string[] {
+    const query = lookupKey(stripIgnoredTerms(normalizeDrugName(input)).name);
+    if (query === '') return [];
+
+    const scored: { name: string; distance: number }[] = [];
+    for (const [key, entry] of nameIndex(dictionary, knowledgeBase)) {
+        const distance = query.length >= 3 && key.startsWith(query) ? 1 : editDistance(query, key);
+        if (distance <= Math.max(1, Math.round(key.length / 4))) scored.push({ name: entry.name, distance });
+    }
+    return scored
+        .sort((a, b) => a.distance - b.distance || a.name.localeCompare(b.name))
+        .slice(0, MAX_SUGGESTIONS)
+        .map(s => s.name);
+}
+
+// ---------------------------------------------------------
+// RESOLUTION
+// ---------------------------------------------------------
+
+/**
+ * Resolves one user-supplied drug name to canonical ingredients and the
+ * knowledge-base drugs to evaluate. Tries the name as given, then without salt,
+ * dosage-form and strength terms, then as a combination of separately named
+ * ingredients. Ingredients without a guideline are analyzed under the active
+ * drug they are a prodrug of, or listed in the notes as not covered.
+ */
+export function resolveDrugName(input: string, dictionary: DrugDictionary = DRUG_DICTIONARY, knowledgeBase: KnowledgeBase = KNOWLEDGE_BASE): DrugResolution {
+    const index = nameIndex(dictionary, knowledgeBase);
+    const name = normalizeDrugName(input);
+    const resolution: DrugResolution = {
+        input,
+        method: 'unresolved',
+        matchedName: null,
+        ignoredTerms: [],
+        ingredients: [],
+        analyzedAs: [],
+        notes: [],
+        suggestions: []
+    };
+    if (name === '') return resolution;
+
+    let matches = [lookupName(name, index)];
+    if (!matches[0]) {
+        const parts = name.split(COMBINATION_SEPARATOR).filter(p => p !== '');
+        matches = parts.length > 1 ? parts.map(p => lookupName(p, index)) : [];
+    }
+
+    if (matches.length === 0 || matches.some(m => m === null)) {
+        resolution.suggestions = suggestDrugNames(input, dictionary, knowledgeBase);
+        return resolution;
+    }
+
+    const found = matches as { entry: NameEntry; removed: string[] }[];
+    resolution.method = found.length > 1 ? 'combination' : found[0].entry.method;
+    resolution.matchedName = found.map(m => m.entry.name).join(' / ');
+    resolution.ignoredTerms = found.flatMap(m => m.removed);
+    resolution.ingredients = [...new Set(found.flatMap(m => m.entry.ingredients))];
+
+    for (const ingredient of resolution.ingredients) {
+        const prodrugOf = dictionary.ingredients[ingredient]?.prodrugOf;
+        if (knowledgeBase.drugs[ingredient]) {
+            resolution.analyzedAs.push(ingredient);
+        } else if (prodrugOf && knowledgeBase.drugs[prodrugOf]) {
+            resolution.analyzedAs.push(prodrugOf);
+            resolution.notes.push(`${ingredient} is a prodrug of ${prodrugOf}; the ${prodrugOf} guideline applies.`);
+        } else {
+            resolution.notes.push(`${ingredient} has no pharmacogenomic guideline in the knowledge base.`);
+        }
+    }
+    resolution.analyzedAs = [...new Set(resolution.analyzedAs)];
+    return resolution;
+}
@@ -0,0 +1,53 @@
+/**
+ * HLA-B risk alleles. Each allele CPIC guides prescribing on is reported as its own
+ * carrier "gene" (e.g. `HLA-B*57:01`: Positive / Negative), determined from typed
+ * HLA-B alleles when the caller supplies them, otherwise from a tag SNP where one
+ * is targeted. Tag SNPs only approximate the allele (linkage varies by ancestry),
+ * so results carry the source they came from.
+ */
+
+import { HaplotypeCall } from './starAlleles';
+
+export type HlaCallSource = 'typed' | 'tag-snp';
+
+// Risk alleles reported, keyed by the profile gene name
+export const HLA_RISK_ALLELES: Record<string, string> = {
+    'HLA-B*57:01': '*57:01', // Abacavir hypersensitivity
+    'HLA-B*58:01': '*58:01', // Allopurinol SJS/TEN
+    'HLA-B*15:02': '*15:02' // Carbamazepine SJS/TEN
+};
+
+/**
+ * Normalizes one typed HLA-B allele to two-field resolution (`B*57:01:01` and
+ * `HLA-B*57:01` become `*57:01`). Returns null when it is not an HLA-B allele name.
+ */
+export function normalizeHlaAllele(allele: string): string | null {
+    const match = /^(?:HLA-)?(?:B)?\*?(\d{2,3}):(\d{2,3})(?::\d{2,3})*[A-Z]?$/i.exec(allele.trim());
+    return match ? `*${match[1]}:${match[2]}` : null;
+}
+
+/**
+ * Parses a typed HLA-B genotype (two alleles separated by `/`, `,` or whitespace).
+ * Returns null unless exactly two valid allele names are given.
+ */
+export function parseHlaTyping(text: string): [string, string] | null {
+    const alleles = text.split(/[\s,/]+/).filter(a => a !== '').map(normalizeHlaAllele);
+    if (alleles.length !== 2 || alleles.some(a => a === null)) return null;
+    return alleles as [string, string];
+}
+
+/**
+ * Haplotype calls of a typed HLA-B genotype for one risk-allele gene: the risk
+ * allele is marked as such, any other allele is named as typed.
+ */
+export function typedHlaAlleles(gene: string, typed: [string, string]): [HaplotypeCall, HaplotypeCall] {
+    const risk = HLA_RISK_ALLELES[gene];
+    const call = (name: string): HaplotypeCall => ({
+        name,
+        function: name === risk ? 'Risk allele' : 'Normal function',
+        exact: true,
+        unexplained: [],
+        copies: 1
+    });
+    return [call(typed[0]), call(typed[1])];
+}
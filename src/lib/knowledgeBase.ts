@@ -0,0 +1,470 @@
+/**
+ * Guideline knowledge base: the drug -> gene(s) -> phenotype -> risk catalog that
+ * the rules engine interprets, loaded from src/data/pgxKnowledgeBase.json and
+ * validated when the module loads, so a malformed edit fails the build instead of
+ * producing wrong recommendations.
+ */
+
+import knowledgeBaseData from '../data/pgxKnowledgeBase.json';
+import { PHENOTYPE_TABLES, INDETERMINATE } from './phenotypes';
+
+export type RiskCategory = 'Safe' | 'Adjust Dosage' | 'Toxic';
+
+export type DrugMechanism = 'Prodrug Activation' | 'Active Clearance' | 'Transporter' | 'Immune Hypersensitivity' | 'Oxidative Hemolysis' | 'Drug Target' | 'Unknown';
+
+// Issuer of a guideline; 'None' marks advice that no guideline body issued
+export type GuidelineBody = 'CPIC' | 'DPWG' | 'FDA' | 'ACR' | 'IWPC' | 'None';
+
+export type CpicLevel = 'A' | 'B' | 'C' | 'D';
+
+// Strength CPIC (or the issuing body) gives a recommendation
+export type RecommendationClassification = 'strong' | 'moderate' | 'optional';
+
+export interface LiteratureReference {
+    citation: string; // e.g. "Crews KR, et al. Clin Pharmacol Ther. 2021"
+    pmid?: string;
+    doi?: string;
+}
+
+// A guideline, label or publication the knowledge base cites
+export interface GuidelineSource {
+    body: GuidelineBody;
+    title: string;
+    version?: string; // e.g. "2021 update"
+    published?: string; // YYYY, YYYY-MM or YYYY-MM-DD
+    literature: LiteratureReference[];
+}
+
+export interface GuidelineCitation extends GuidelineSource {
+    id: string; // Key in the knowledge base's guidelines
+}
+
+// A therapy to consider instead, with the gene-based reason it suits the patient
+export interface GuidelineAlternative {
+    drug: string; // Upper-case generic name
+    reason: string;
+}
+
+// How a drug's standard dose is expressed
+export type DoseBasis = 'mg' | 'mg/kg' | 'mg/m2';
+
+export interface DoseAmount {
+    value: number; // Per day
+    unit: DoseBasis;
+}
+
+// Structured form of a rule's dosing advice
+export interface DoseGuidance {
+    percentOfStandard?: [number, number]; // Range of the standard dose to give (100 = unchanged)
+    startingDose?: DoseAmount; // When the guideline names a fixed starting dose
+    maxDailyDose?: DoseAmount;
+    frequency?: string; // When it differs from the standard schedule, e.g. "3 times weekly"
+    titration: string;
+}
+
+export type PatientSex = 'female' | 'male';
+
+// Non-genetic patient conditions; every listed condition must hold
+export interface ContextCondition {
+    ageBelow?: number; // Years
+    ageAbove?: number;
+    sex?: PatientSex;
+    pregnant?: boolean;
+    lactating?: boolean;
+    egfrBelow?: number; // mL/min/1.73 m2
+}
+
+// Applies on top of the matched genetic rule; it can only raise the risk
+export interface ContextRule {
+    context: ContextCondition;
+    // Omitted for an advisory, whose advice hinges on something the context does not record
+    // (e.g. a recent tonsillectomy): its recommendation is added but the risk is left as it is
+    risk?: Exclude<RiskCategory, 'Safe'>;
+    recommendation: string;
+    alternatives?: GuidelineAlternative[]; // Replace the genetic rule's alternatives; not on advisories
+    sources: string[]; // Keys of the knowledge base's guidelines
+}
+
+export interface GuidelineRule {
+    when: Record<string, string[]>; // Gene -> accepted phenotypes; every listed gene must match
+    risk: RiskCategory;
+    recommendation: string;
+    classification?: RecommendationClassification; // Omitted when the source does not grade it
+    source?: string; // Overrides the drug's sources for this rule (e.g. standard of care for indeterminate calls)
+    alternatives?: GuidelineAlternative[]; // Only on non-Safe rules
+    dose?: DoseGuidance; // Only on non-Safe rules
+}
+
+// Genotype-based notice added to whichever rule matched, e.g. a risk allele the
+// panel cannot call; it can only raise the risk
+export interface GuidelineCaveat {
+    when: Record<string, string[]>; // As in GuidelineRule; must not be empty
+    risk: Exclude<RiskCategory, 'Safe'>;
+    recommendation: string;
+}
+
+// One-compartment oral dosing model used by the Digital Twin
+export interface PharmacokineticParameters {
+    D: number; // Dose (mg)
+    F: number; // Bioavailability
+    Vd: number; // Volume of distribution (L)
+    ka: number; // Absorption rate constant (/h)
+    ke_normal: number; // Elimination (or activation) rate constant of a normal metabolizer (/h)
+    toxicity: number; // Toxicity threshold
+    efficacy: number; // Efficacy floor
+    unit: string; // Concentration unit of the thresholds
+    halfLifeHr: number;
+}
+
+export interface DrugGuideline {
+    genes: string[]; // The first gene is reported as the primary gene
+    doseBasis?: DoseBasis; // Unit of the standard dose; 'mg' when omitted
+    mechanism: DrugMechanism;
+    pathway: string; // e.g. CYP2D6_activation, given to the explanation model
+    sources: string[]; // Keys of the knowledge base's guidelines, primary first
+    cpicLevel?: CpicLevel; // CPIC level of the gene-drug pair; omitted when CPIC has not assigned one
+    rules: GuidelineRule[]; // Checked in order; the last one is unconditional
+    caveats?: GuidelineCaveat[]; // Every matching one applies on top of the matched rule
+    contextRules?: ContextRule[]; // Every matching one applies
+    pk?: PharmacokineticParameters;
+}
+
+export interface KnowledgeBase {
+    version: string;
+    updated: string; // ISO date of the last guideline change
+    description?: string;
+    guidelines: Record<string, GuidelineSource>; // Citation catalog the drugs and rules refer to
+    drugs: Record<string, DrugGuideline>; // Keyed by upper-case drug name
+}
+
+const RISK_CATEGORIES: RiskCategory[] = ['Safe', 'Adjust Dosage', 'Toxic'];
+const MECHANISMS: DrugMechanism[] = ['Prodrug Activation', 'Active Clearance', 'Transporter', 'Immune Hypersensitivity', 'Oxidative Hemolysis', 'Drug Target', 'Unknown'];
+const DOSE_BASES: DoseBasis[] = ['mg', 'mg/kg', 'mg/m2'];
+const CONTEXT_NUMBERS: (keyof ContextCondition)[] = ['ageBelow', 'ageAbove', 'egfrBelow'];
+const CONTEXT_FLAGS: (keyof ContextCondition)[] = ['pregnant', 'lactating'];
+const GUIDELINE_BODIES: GuidelineBody[] = ['CPIC', 'DPWG', 'FDA', 'ACR', 'IWPC', 'None'];
+const CPIC_LEVELS: CpicLevel[] = ['A', 'B', 'C', 'D'];
+const CLASSIFICATIONS: RecommendationClassification[] = ['strong', 'moderate', 'optional'];
+const PK_NUMBERS: (keyof PharmacokineticParameters)[] = ['D', 'F', 'Vd', 'ka', 'ke_normal', 'toxicity', 'efficacy', 'halfLifeHr'];
+
+// ---------------------------------------------------------
+// VALIDATION
+// ---------------------------------------------------------
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+    return typeof value === 'string' && value.trim() !== '';
+}
+
+function isPositiveNumber(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+function validateDose(dose: unknown, basis: DoseBasis, path: string, errors: string[]) {
+    if (!isRecord(dose)) {
+        errors.push(`${path}: must be an object.`);
+        return;
+    }
+    const percent = dose.percentOfStandard;
+    if (percent !== undefined && (!Array.isArray(percent) || percent.length !== 2 || !percent.every(isPositiveNumber) || percent[0] > percent[1])) {
+        errors.push(`${path}.percentOfStandard: must be a [min, max] pair of positive numbers.`);
+    }
+    for (const field of ['startingDose', 'maxDailyDose'] as const) {
+        const amount = dose[field];
+        if (amount === undefined) continue;
+        // Amounts are absolute (mg) or in the drug's dose basis
+        if (!isRecord(amount) || !isPositiveNumber(amount.value) || (amount.unit !== 'mg' && amount.unit !== basis)) {
+            errors.push(`${path}.${field}: must be { "value": positive number, "unit": "mg"${basis === 'mg' ? '' : ` or "${basis}"`} }.`);
+        }
+    }
+    if (percent === undefined && dose.startingDose === undefined && dose.maxDailyDose === undefined) {
+        errors.push(`${path}: needs at least one of percentOfStandard, startingDose or maxDailyDose.`);
+    }
+    if (dose.frequency !== undefined && !isNonEmptyString(dose.frequency)) errors.push(`${path}.frequency: must be a non-empty string when present.`);
+    if (!isNonEmptyString(dose.titration)) errors.push(`${path}.titration: must be a non-empty string.`);
+}
+
+function validateSources(sources: unknown, sourceIds: string[], path: string, errors: string[]) {
+    if (!Array.isArray(sources) || sources.length === 0) {
+        errors.push(`${path}: must be a non-empty array of "guidelines" keys.`);
+        return;
+    }
+    for (const source of sources) {
+        if (typeof source !== 'string' || !sourceIds.includes(source)) errors.push(`${path}: ${JSON.stringify(source)} is not an entry of "guidelines".`);
+    }
+}
+
+function validateGuidelineSource(id: string, source: unknown, errors: string[]) {
+    const path = `guidelines.${id}`;
+    if (!isRecord(source)) {
+        errors.push(`${path}: must be an object.`);
+        return;
+    }
+    if (!GUIDELINE_BODIES.includes(source.body as GuidelineBody)) errors.push(`${path}.body: must be one of ${GUIDELINE_BODIES.join(', ')}.`);
+    if (!isNonEmptyString(source.title)) errors.push(`${path}.title: must be a non-empty string.`);
+    if (source.version !== undefined && !isNonEmptyString(source.version)) errors.push(`${path}.version: must be a non-empty string when present.`);
+    if (source.published !== undefined && (typeof source.published !== 'string' || !/^\d{4}(-\d{2}){0,2}$/.test(source.published))) {
+        errors.push(`${path}.published: must be YYYY, YYYY-MM or YYYY-MM-DD.`);
+    }
+    if (!Array.isArray(source.literature)) {
+        errors.push(`${path}.literature: must be an array (empty when nothing is published).`);
+        return;
+    }
+    source.literature.forEach((reference, i) => {
+        if (!isRecord(reference) || !isNonEmptyString(reference.citation)) {
+            errors.push(`${path}.literature[${i}].citation: must be a non-empty string.`);
+            return;
+        }
+        if (reference.pmid !== undefined && (typeof reference.pmid !== 'string' || !/^\d+$/.test(reference.pmid))) errors.push(`${path}.literature[${i}].pmid: must be a numeric string.`);
+        if (reference.doi !== undefined && (typeof reference.doi !== 'string' || !reference.doi.startsWith('10.'))) errors.push(`${path}.literature[${i}].doi: must start with "10.".`);
+    });
+}
+
+function validateRule(rule: unknown, genes: string[], sourceIds: string[], path: string, errors: string[]) {
+    if (!isRecord(rule)) {
+        errors.push(`${path}: must be an object.`);
+        return;
+    }
+    if (!isRecord(rule.when)) {
+        errors.push(`${path}.when: must be an object mapping genes to phenotypes.`);
+    } else {
+        for (const [gene, phenotypes] of Object.entries(rule.when)) {
+            if (!genes.includes(gene)) {
+                errors.push(`${path}.when.${gene}: gene is not listed in the drug's "genes".`);
+                continue;
+            }
+            if (!Array.isArray(phenotypes) || phenotypes.length === 0) {
+                errors.push(`${path}.when.${gene}: must be a non-empty array of phenotypes.`);
+                continue;
+            }
+            const known = [...(PHENOTYPE_TABLES[gene]?.phenotypes ?? []), INDETERMINATE];
+            for (const phenotype of phenotypes) {
+                if (typeof phenotype !== 'string' || !known.includes(phenotype)) {
+                    errors.push(`${path}.when.${gene}: unknown phenotype ${JSON.stringify(phenotype)} (expected one of ${known.join(', ')}).`);
+                }
+            }
+        }
+    }
+    if (!RISK_CATEGORIES.includes(rule.risk as RiskCategory)) {
+        errors.push(`${path}.risk: must be one of ${RISK_CATEGORIES.join(', ')}.`);
+    }
+    if (!isNonEmptyString(rule.recommendation)) errors.push(`${path}.recommendation: must be a non-empty string.`);
+    if (rule.classification !== undefined && !CLASSIFICATIONS.includes(rule.classification as RecommendationClassification)) {
+        errors.push(`${path}.classification: must be one of ${CLASSIFICATIONS.join(', ')}.`);
+    }
+    if (rule.source !== undefined && !(isNonEmptyString(rule.source) && sourceIds.includes(rule.source))) {
+        errors.push(`${path}.source: must name an entry of "guidelines".`);
+    }
+
+    if (rule.alternatives !== undefined) {
+        if (!Array.isArray(rule.alternatives) || rule.alternatives.length === 0) {
+            errors.push(`${path}.alternatives: must be a non-empty array when present.`);
+        } else {
+            if (rule.risk === 'Safe') errors.push(`${path}.alternatives: Safe rules do not list alternatives.`);
+            rule.alternatives.forEach((alternative, i) => {
+                if (!isRecord(alternative) || !isNonEmptyString(alternative.drug) || alternative.drug !== alternative.drug.toUpperCase()) {
+                    errors.push(`${path}.alternatives[${i}].drug: must be an upper-case drug name.`);
+                } else if (!isNonEmptyString(alternative.reason)) {
+                    errors.push(`${path}.alternatives[${i}].reason: must be a non-empty string.`);
+                }
+            });
+        }
+    }
+}
+
+function validateCaveat(caveat: unknown, genes: string[], sourceIds: string[], path: string, errors: string[]) {
+    if (!isRecord(caveat)) {
+        errors.push(`${path}: must be an object.`);
+        return;
+    }
+    // Caveats share the rule schema but only carry a notice
+    validateRule(caveat, genes, sourceIds, path, errors);
+    if (isRecord(caveat.when) && Object.keys(caveat.when).length === 0) errors.push(`${path}.when: caveats must name at least one gene.`);
+    if (caveat.risk === 'Safe') errors.push(`${path}.risk: caveats can only raise the risk (Adjust Dosage or Toxic).`);
+    for (const field of ['classification', 'source', 'alternatives', 'dose']) {
+        if (caveat[field] !== undefined) errors.push(`${path}.${field}: caveats do not carry a ${field}; the matched rule does.`);
+    }
+}
+
+function validateContextRule(rule: unknown, genes: string[], sourceIds: string[], path: string, errors: string[]) {
+    if (!isRecord(rule)) {
+        errors.push(`${path}: must be an object.`);
+        return;
+    }
+    // Context rules share the rule schema apart from gene conditions; an advisory is checked as a Safe rule
+    if (rule.when !== undefined) errors.push(`${path}.when: context rules do not read genes.`);
+    const advisory = rule.risk === undefined;
+    validateRule({ ...rule, when: {}, ...(advisory ? { risk: 'Safe', alternatives: undefined } : {}) }, genes, sourceIds, path, errors);
+    validateSources(rule.sources, sourceIds, `${path}.sources`, errors);
+    if (rule.risk === 'Safe') errors.push(`${path}.risk: context rules can only raise the risk (Adjust Dosage or Toxic); omit it for an advisory.`);
+    if (advisory && rule.alternatives !== undefined) errors.push(`${path}.alternatives: advisories (no risk) do not replace the alternatives.`);
+
+    const context = rule.context;
+    if (!isRecord(context) || Object.keys(context).length === 0) {
+        errors.push(`${path}.context: must be a non-empty object of patient conditions.`);
+        return;
+    }
+    for (const [key, value] of Object.entries(context)) {
+        const condition = key as keyof ContextCondition;
+        if (CONTEXT_NUMBERS.includes(condition)) {
+            if (!isPositiveNumber(value)) errors.push(`${path}.context.${key}: must be a positive number.`);
+        } else if (CONTEXT_FLAGS.includes(condition)) {
+            if (value !== true) errors.push(`${path}.context.${key}: must be true.`);
+        } else if (condition === 'sex') {
+            if (value !== 'female' && value !== 'male') errors.push(`${path}.context.sex: must be "female" or "male".`);
+        } else {
+            errors.push(`${path}.context.${key}: unknown condition (expected ${[...CONTEXT_NUMBERS, ...CONTEXT_FLAGS, 'sex'].join(', ')}).`);
+        }
+    }
+}
+
+function validateDrug(name: string, drug: unknown, sourceIds: string[], errors: string[]) {
+    const path = `drugs.${name}`;
+    if (name !== name.toUpperCase()) errors.push(`${path}: drug names must be upper case.`);
+    if (!isRecord(drug)) {
+        errors.push(`${path}: must be an object.`);
+        return;
+    }
+
+    const genes = Array.isArray(drug.genes) ? drug.genes.filter(isNonEmptyString) : [];
+    if (!Array.isArray(drug.genes) || genes.length === 0 || genes.length !== drug.genes.length) {
+        errors.push(`${path}.genes: must be a non-empty array of gene names.`);
+    }
+    for (const gene of genes) {
+        if (!PHENOTYPE_TABLES[gene]) errors.push(`${path}.genes: "${gene}" has no phenotype translation table.`);
+    }
+
+    if (drug.doseBasis !== undefined && !DOSE_BASES.includes(drug.doseBasis as DoseBasis)) errors.push(`${path}.doseBasis: must be one of ${DOSE_BASES.join(', ')}.`);
+    const basis = DOSE_BASES.includes(drug.doseBasis as DoseBasis) ? drug.doseBasis as DoseBasis : 'mg';
+
+    if (!MECHANISMS.includes(drug.mechanism as DrugMechanism)) errors.push(`${path}.mechanism: must be one of ${MECHANISMS.join(', ')}.`);
+    if (!isNonEmptyString(drug.pathway)) errors.push(`${path}.pathway: must be a non-empty string.`);
+    validateSources(drug.sources, sourceIds, `${path}.sources`, errors);
+    if (drug.cpicLevel !== undefined && !CPIC_LEVELS.includes(drug.cpicLevel as CpicLevel)) errors.push(`${path}.cpicLevel: must be one of ${CPIC_LEVELS.join(', ')}.`);
+
+    if (!Array.isArray(drug.rules) || drug.rules.length === 0) {
+        errors.push(`${path}.rules: must be a non-empty array.`);
+    } else {
+        drug.rules.forEach((rule, i) => {
+            validateRule(rule, genes, sourceIds, `${path}.rules[${i}]`, errors);
+            if (isRecord(rule) && rule.dose !== undefined) {
+                validateDose(rule.dose, basis, `${path}.rules[${i}].dose`, errors);
+                if (rule.risk === 'Safe') errors.push(`${path}.rules[${i}].dose: Safe rules use the standard dose.`);
+            }
+            if (isRecord(rule) && Array.isArray(rule.alternatives) && rule.alternatives.some(a => isRecord(a) && a.drug === name)) {
+                errors.push(`${path}.rules[${i}].alternatives: a drug cannot be its own alternative.`);
+            }
+        });
+        const last = drug.rules[drug.rules.length - 1];
+        if (!isRecord(last) || !isRecord(last.when) || Object.keys(last.when).length > 0) {
+            errors.push(`${path}.rules: the last rule must be an unconditional fallback ("when": {}).`);
+        }
+    }
+
+    if (drug.caveats !== undefined) {
+        if (!Array.isArray(drug.caveats) || drug.caveats.length === 0) {
+            errors.push(`${path}.caveats: must be a non-empty array when present.`);
+        } else {
+            drug.caveats.forEach((caveat, i) => validateCaveat(caveat, genes, sourceIds, `${path}.caveats[${i}]`, errors));
+        }
+    }
+
+    if (drug.contextRules !== undefined) {
+        if (!Array.isArray(drug.contextRules) || drug.contextRules.length === 0) {
+            errors.push(`${path}.contextRules: must be a non-empty array when present.`);
+        } else {
+            drug.contextRules.forEach((rule, i) => validateContextRule(rule, genes, sourceIds, `${path}.contextRules[${i}]`, errors));
+        }
+    }
+
+    if (drug.pk !== undefined) {
+        if (!isRecord(drug.pk)) {
+            errors.push(`${path}.pk: must be an object.`);
+        } else {
+            const pk = drug.pk;
+            for (const key of PK_NUMBERS) {
+                const value = pk[key];
+                if (typeof value !== 'number' || value <= 0) errors.push(`${path}.pk.${key}: must be a positive number.`);
+            }
+            if (!isNonEmptyString(pk.unit)) errors.push(`${path}.pk.unit: must be a non-empty string.`);
+        }
+    }
+}
+
+/**
+ * Checks knowledge-base content against the schema above and the engine's gene
+ * phenotype tables. Returns one message per problem, empty when valid.
+ */
+export function validateKnowledgeBase(data: unknown): string[] {
+    const errors: string[] = [];
+    if (!isRecord(data)) return ['Knowledge base must be a JSON object.'];
+
+    if (!isNonEmptyString(data.version)) errors.push('version: must be a non-empty string.');
+    if (typeof data.updated !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(data.updated)) errors.push('updated: must be an ISO date (YYYY-MM-DD).');
+    let sourceIds: string[] = [];
+    if (!isRecord(data.guidelines)) {
+        errors.push('guidelines: must be an object of cited guidelines keyed by id.');
+    } else {
+        sourceIds = Object.keys(data.guidelines);
+        for (const [id, source] of Object.entries(data.guidelines)) validateGuidelineSource(id, source, errors);
+    }
+    if (!isRecord(data.drugs) || Object.keys(data.drugs).length === 0) {
+        errors.push('drugs: must be a non-empty object keyed by drug name.');
+    } else {
+        for (const [name, drug] of Object.entries(data.drugs)) validateDrug(name, drug, sourceIds, errors);
+    }
+    return errors;
+}
+
+/**
+ * Validates and returns knowledge-base content. Throws listing every problem.
+ */
+export function loadKnowledgeBase(data: unknown): KnowledgeBase {
+    const errors = validateKnowledgeBase(data);
+    if (errors.length > 0) {
+        throw new Error(`Invalid pharmacogenomic knowledge base:\n- ${errors.join('\n- ')}`);
+    }
+    return data as KnowledgeBase;
+}
+
+export const KNOWLEDGE_BASE = loadKnowledgeBase(knowledgeBaseData);
+
+/** Drugs covered by the bundled knowledge base, in file order. */
+export const KNOWN_DRUGS = Object.keys(KNOWLEDGE_BASE.drugs);
+
+// ---------------------------------------------------------
+// LOOKUP
+// ---------------------------------------------------------
+
+/**
+ * Guideline of a drug (case-insensitive), or null when the drug is not covered.
+ */
+export function getDrugGuideline(drug: string, knowledgeBase: KnowledgeBase = KNOWLEDGE_BASE): DrugGuideline | null {
+    return knowledgeBase.drugs[drug.toUpperCase()] ?? null;
+}
+
+/**
+ * First rule whose conditions all match the given gene phenotypes.
+ */
+export function matchGuidelineRule(guideline: DrugGuideline, phenotypes: Record<string, string>): GuidelineRule {
+    const rule = guideline.rules.find(r => Object.entries(r.when).every(([gene, accepted]) => accepted.includes(phenotypes[gene] ?? INDETERMINATE)));
+    // Validation guarantees an unconditional last rule
+    return rule ?? guideline.rules[guideline.rules.length - 1];
+}
+
+/**
+ * Caveats of the drug whose conditions all match the given gene phenotypes, in file order.
+ */
+export function matchGuidelineCaveats(guideline: DrugGuideline, phenotypes: Record<string, string>): GuidelineCaveat[] {
+    return (guideline.caveats ?? []).filter(c => Object.entries(c.when).every(([gene, accepted]) => accepted.includes(phenotypes[gene] ?? INDETERMINATE)));
+}
+
+/**
+ * Catalog entries for the given guideline keys, in the order given.
+ */
+export function citeGuidelines(ids: string[], knowledgeBase: KnowledgeBase = KNOWLEDGE_BASE): GuidelineCitation[] {
+    return ids.map(id => ({ id, ...knowledgeBase.guidelines[id] }));
+}
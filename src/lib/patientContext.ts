@@ -0,0 +1,55 @@
+/**
+ * Non-genetic patient context (age, sex, weight, pregnancy, lactation, renal
+ * function) and the knowledge-base context rules it triggers, such as the FDA
+ * contraindication of codeine and tramadol in children younger than 12.
+ */
+
+import { ContextCondition, ContextRule, DrugGuideline, PatientSex } from './knowledgeBase';
+
+export interface PatientContext {
+    ageYears?: number;
+    sex?: PatientSex;
+    weightKg?: number;
+    pregnant?: boolean;
+    lactating?: boolean;
+    egfr?: number; // mL/min/1.73 m2
+}
+
+// ---------------------------------------------------------
+// MATCHING
+// ---------------------------------------------------------
+
+/**
+ * Whether every condition holds for the patient. A condition on a value the
+ * context does not give (e.g. an age limit when no age was supplied) does not hold.
+ */
+export function matchesContext(condition: ContextCondition, context: PatientContext): boolean {
+    const age = context.ageYears;
+    return (condition.ageBelow === undefined || (age !== undefined && age < condition.ageBelow))
+        && (condition.ageAbove === undefined || (age !== undefined && age > condition.ageAbove))
+        && (condition.sex === undefined || context.sex === condition.sex)
+        && (condition.pregnant === undefined || context.pregnant === condition.pregnant)
+        && (condition.lactating === undefined || context.lactating === condition.lactating)
+        && (condition.egfrBelow === undefined || (context.egfr !== undefined && context.egfr < condition.egfrBelow));
+}
+
+/**
+ * Context rules of the drug that apply to the patient, in file order.
+ */
+export function matchContextRules(guideline: DrugGuideline, context: PatientContext): ContextRule[] {
+    return (guideline.contextRules ?? []).filter(rule => matchesContext(rule.context, context));
+}
+
+/**
+ * Readable form of a condition, e.g. "age under 12 years, breastfeeding".
+ */
+export function describeContextCondition(condition: ContextCondition): string {
+    const parts: string[] = [];
+    if (condition.ageBelow !== undefined) parts.push(`age under ${condition.ageBelow} years`);
+    if (condition.ageAbove !== undefined) parts.push(`age over ${condition.ageAbove} years`);
+    if (condition.sex) parts.push(condition.sex);
+    if (condition.pregnant) parts.push('pregnant');
+    if (condition.lactating) parts.push('breastfeeding');
+    if (condition.egfrBelow !== undefined) parts.push(`eGFR below ${condition.egfrBelow} mL/min/1.73 m²`);
+    return parts.join(', ');
+}
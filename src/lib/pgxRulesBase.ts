@@ -1,104 +1,770 @@
-import { VCFVariant } from './vcfParser';
+import { VCFVariant, GenotypeCall, GenomeBuild, normalizeChromosome } from './vcfParser';
+import { HaplotypeCall, nameHaplotype, formatDiplotype, deletionAllele, alleleLabel } from './starAlleles';
+import { INDETERMINATE, PHENOTYPE_TABLES, translatePhenotype, phenotypeRank } from './phenotypes';
+import { HlaCallSource, HLA_RISK_ALLELES, typedHlaAlleles } from './hla';
+import { RiskCategory, DrugMechanism, DoseBasis, DoseGuidance, ContextRule, CpicLevel, DrugGuideline, GuidelineAlternative, GuidelineCaveat, GuidelineCitation, GuidelineRule, KnowledgeBase, KNOWLEDGE_BASE, RecommendationClassification, citeGuidelines, getDrugGuideline, matchGuidelineCaveats, matchGuidelineRule } from './knowledgeBase';
+import { DRUG_DICTIONARY, resolveDrugName } from './drugNames';
+import { PatientContext, describeContextCondition, matchContextRules } from './patientContext';
 
-export type RiskCategory = 'Safe' | 'Adjust Dosage' | 'Toxic';
+export type { RiskCategory };
 
 export interface DrugRiskAssessment {
     drug: string;
     risk: RiskCategory;
+    geneticRisk: RiskCategory; // From the genotype alone (matched rule and caveats), before context rules
+    contextFlags: ContextFlag[]; // Context rules that applied to the patient, advisories included
     gene: string;
     diplotype: string;
     phenotype: string;
     activityScore?: number;
     recommendation: string;
-    evidenceStrength: string;
-    mechanism: 'Prodrug Activation' | 'Active Clearance' | 'Transporter' | 'Unknown';
+    evidenceStrength: string; // Readable summary of the provenance, e.g. "CPIC Level A (strong recommendation)"
+    provenance: Provenance;
+    mechanism: DrugMechanism;
+    genes: string[]; // Every gene the drug's guideline reads
+    drivingGenes: string[]; // Genes whose phenotypes selected the recommendation
+    alternatives: TherapeuticAlternative[]; // Alternatives the patient's own profile does not flag
+    excludedAlternatives: TherapeuticAlternative[]; // Guideline alternatives the profile flags
+    doseBasis: DoseBasis;
+    doseGuidance: DoseGuidance | null; // Structured dosing advice of the matched rule
+}
+
+// A recommendation changed by non-genetic patient context
+export interface ContextFlag {
+    condition: string; // e.g. "age under 12 years"
+    risk: RiskCategory | null; // Null for an advisory, which leaves the risk as it is
+    recommendation: string;
+    sources: GuidelineCitation[];
+}
+
+// Where the genetic recommendation comes from
+export interface Provenance {
+    sources: GuidelineCitation[]; // Primary first
+    cpicLevel: CpicLevel | null;
+    classification: RecommendationClassification | null;
+}
+
+export interface TherapeuticAlternative {
+    drug: string;
+    reason: string; // Why the alternative suits the patient's genotype
+    assessedRisk: RiskCategory | null; // The alternative's own result for the patient; null when no guideline covers it
+}
+
+// 'uncovered' covers missing records, no-calls and calls rejected by the quality thresholds
+export type TargetCoverage = 'called-variant' | 'called-reference' | 'uncovered';
+
+export interface TargetCall {
+    rsid: string;
+    genotype: string; // Normalized GT of the matched record, 'Unknown' when not found
+    dosage: number | null; // Copies of the tested allele, null for no-calls
+    matchedBy: 'coordinates' | 'rsid' | 'reference-block' | null;
+    coverage: TargetCoverage;
+    qualityFlags: string[]; // Reasons the call was rejected as a no-call (empty when it passed)
+}
+
+// 'unambiguous': at most one heterozygous variant; 'phased': haplotypes taken from GT phase;
+// 'inferred': unphased, but only one arrangement matches defined star alleles;
+// 'ambiguous': several arrangements remain (unphased heterozygous variants, or which
+// allele a gene duplication belongs to)
+export type PhaseStatus = 'unambiguous' | 'phased' | 'inferred' | 'ambiguous';
+
+export interface DiplotypeCandidate {
+    haplotypes: [string[], string[]]; // rsIDs of the tested alleles carried by each chromosome
+    diplotype: string;
+    phenotype: string;
+    activityScore?: number; // CPIC activity score, for genes scored by activity values
+}
+
+export interface GeneResult {
+    diplotype: string;
+    phenotype: string;
+    activityScore?: number; // CPIC activity score, for genes scored by activity values
+    calls?: TargetCall[];
+    phase?: PhaseStatus;
+    haplotypes?: [string[], string[]]; // Haplotype assignment behind the reported diplotype
+    alleles?: [HaplotypeCall, HaplotypeCall]; // Star allele named for each haplotype
+    candidates?: DiplotypeCandidate[]; // Every arrangement consistent with the calls, when ambiguous
+    copyNumber?: CopyNumberCall; // Only set when a copy number was called or supplied
+    hemizygous?: boolean; // Haploid calls (X-linked genes in males): one allele reported
+    source?: HlaCallSource; // HLA risk alleles: typed, or inferred from a tag SNP
+}
+
+export interface CopyNumberCall {
+    copies: number; // Total gene copies across both chromosomes
+    source: 'vcf' | 'request';
 }
 
 export interface PatientProfile {
-    genes: Record<string, { diplotype: string; phenotype: string; activityScore?: number }>;
+    genes: Record<string, GeneResult>;
     gciScore: number; // Genomic Confidence Index 0-100
 }
 
+export interface CallQualityThresholds {
+    minDepth: number; // FORMAT DP
+    minGenotypeQuality: number; // FORMAT GQ
+    minQual: number; // QUAL column
+    alleleBalance: [number, number]; // Accepted ALT read fraction (AD) for heterozygous calls
+    requirePass: boolean; // FILTER / FT must be PASS (or '.')
+}
+
+export const DEFAULT_QUALITY_THRESHOLDS: CallQualityThresholds = {
+    minDepth: 10,
+    minGenotypeQuality: 20,
+    minQual: 20,
+    alleleBalance: [0.2, 0.8],
+    requirePass: true
+};
+
+export interface ProfileOptions {
+    sampleIndex?: number; // Sample column (header order) for multi-sample VCFs
+    build?: GenomeBuild | null; // Target coordinates to use; both builds are tried when unknown
+    quality?: Partial<CallQualityThresholds>;
+    copyNumbers?: Record<string, number>; // Caller-supplied gene copy numbers; override the VCF
+    hlaTyping?: [string, string]; // Typed HLA-B alleles (two-field, see hla.ts); override tag SNPs
+}
+
 // ---------------------------------------------------------
 // STRICT GENE TO VARIANT MAPPING
 // ---------------------------------------------------------
 
-const TARGET_VARIANTS: Record<string, string[]> = {
-    CYP2D6: ['rs3892097', 'rs1065852', 'rs16947', 'rs1135840'],
-    CYP2C9: ['rs1799853', 'rs1057910'],
-    CYP2C19: ['rs4244285', 'rs4986893'],
-    SLCO1B1: ['rs4149056', 'rs2306283'],
-    TPMT: ['rs1142345', 'rs1800460', 'rs1800462'],
-    DPYD: ['rs3918290', 'rs67376798']
+interface TargetVariant {
+    rsid: string;
+    chrom: string; // Normalized chromosome name (see normalizeChromosome)
+    positions: Partial<Record<GenomeBuild, number>>; // Empty for variants only matched by rsID
+    ref: string; // Forward (+) strand reference allele
+    alt: string; // Forward (+) strand allele that defines the pharmacogenomic variant
+}
+
+const TARGET_VARIANTS: Record<string, TargetVariant[]> = {
+    CYP2D6: [
+        { rsid: 'rs3892097', chrom: '22', positions: { GRCh37: 42524947, GRCh38: 42128945 }, ref: 'C', alt: 'T' },
+        { rsid: 'rs1065852', chrom: '22', positions: { GRCh37: 42526694, GRCh38: 42130692 }, ref: 'G', alt: 'A' },
+        { rsid: 'rs16947', chrom: '22', positions: { GRCh37: 42523943, GRCh38: 42127941 }, ref: 'G', alt: 'A' },
+        { rsid: 'rs1135840', chrom: '22', positions: { GRCh37: 42522613, GRCh38: 42126611 }, ref: 'C', alt: 'G' }
+    ],
+    CYP2C9: [
+        { rsid: 'rs1799853', chrom: '10', positions: { GRCh37: 96702047, GRCh38: 94942290 }, ref: 'C', alt: 'T' },
+        { rsid: 'rs1057910', chrom: '10', positions: { GRCh37: 96741053, GRCh38: 94981296 }, ref: 'A', alt: 'C' }
+    ],
+    CYP2C19: [
+        { rsid: 'rs4244285', chrom: '10', positions: { GRCh37: 96541616, GRCh38: 94781859 }, ref: 'G', alt: 'A' },
+        { rsid: 'rs4986893', chrom: '10', positions: { GRCh37: 96540410, GRCh38: 94780653 }, ref: 'G', alt: 'A' },
+        { rsid: 'rs12248560', chrom: '10', positions: { GRCh37: 96521657, GRCh38: 94761900 }, ref: 'C', alt: 'T' }
+    ],
+    SLCO1B1: [
+        { rsid: 'rs4149056', chrom: '12', positions: { GRCh37: 21331549, GRCh38: 21178615 }, ref: 'T', alt: 'C' },
+        { rsid: 'rs2306283', chrom: '12', positions: { GRCh37: 21329738, GRCh38: 21176804 }, ref: 'A', alt: 'G' }
+    ],
+    TPMT: [
+        { rsid: 'rs1142345', chrom: '6', positions: { GRCh37: 18130918, GRCh38: 18130687 }, ref: 'T', alt: 'C' },
+        { rsid: 'rs1800460', chrom: '6', positions: { GRCh37: 18139228, GRCh38: 18138997 }, ref: 'C', alt: 'T' },
+        { rsid: 'rs1800462', chrom: '6', positions: { GRCh37: 18143955, GRCh38: 18143724 }, ref: 'C', alt: 'G' }
+    ],
+    DPYD: [
+        { rsid: 'rs3918290', chrom: '1', positions: { GRCh37: 97915614, GRCh38: 97450058 }, ref: 'C', alt: 'T' },
+        { rsid: 'rs67376798', chrom: '1', positions: { GRCh37: 97547947, GRCh38: 97082391 }, ref: 'T', alt: 'A' },
+        { rsid: 'rs75017182', chrom: '1', positions: { GRCh37: 98045449, GRCh38: 97579893 }, ref: 'G', alt: 'C' }
+    ],
+    VKORC1: [
+        { rsid: 'rs9923231', chrom: '16', positions: { GRCh37: 31107689, GRCh38: 31096368 }, ref: 'C', alt: 'T' }
+    ],
+    CYP4F2: [
+        { rsid: 'rs2108622', chrom: '19', positions: { GRCh37: 15990431, GRCh38: 15879621 }, ref: 'C', alt: 'T' }
+    ],
+    NUDT15: [
+        { rsid: 'rs116855232', chrom: '13', positions: { GRCh37: 48619855, GRCh38: 48045719 }, ref: 'C', alt: 'T' }
+    ],
+    UGT1A1: [
+        { rsid: 'rs3064744', chrom: '2', positions: { GRCh37: 234668879, GRCh38: 233760233 }, ref: 'C', alt: 'CAT' },
+        { rsid: 'rs4148323', chrom: '2', positions: { GRCh37: 234669144, GRCh38: 233760498 }, ref: 'G', alt: 'A' }
+    ],
+    CYP3A5: [
+        // The reference genome carries *3 (C); the tested T allele is *1
+        { rsid: 'rs776746', chrom: '7', positions: { GRCh37: 99270539, GRCh38: 99672916 }, ref: 'C', alt: 'T' }
+    ],
+    G6PD: [
+        { rsid: 'rs1050828', chrom: 'X', positions: { GRCh37: 153764217, GRCh38: 154536002 }, ref: 'C', alt: 'T' },
+        { rsid: 'rs5030868', chrom: 'X', positions: { GRCh37: 153762634, GRCh38: 154534419 }, ref: 'G', alt: 'A' }
+    ],
+    // CPIC malignant hyperthermia variants, matched by rsID
+    RYR1: [
+        { rsid: 'rs118192161', chrom: '19', positions: {}, ref: 'C', alt: 'T' },
+        { rsid: 'rs121918592', chrom: '19', positions: {}, ref: 'G', alt: 'A' },
+        { rsid: 'rs118192172', chrom: '19', positions: {}, ref: 'C', alt: 'T' },
+        { rsid: 'rs121918593', chrom: '19', positions: {}, ref: 'G', alt: 'A' }
+    ],
+    CACNA1S: [
+        { rsid: 'rs772226819', chrom: '1', positions: {}, ref: 'G', alt: 'A' },
+        { rsid: 'rs1800559', chrom: '1', positions: {}, ref: 'C', alt: 'T' }
+    ],
+    // HLA-B tag SNPs (see hla.ts); HLA-B*15:02 has no reliable tag and needs typing
+    'HLA-B*57:01': [
+        { rsid: 'rs2395029', chrom: '6', positions: { GRCh37: 31431780, GRCh38: 31464003 }, ref: 'T', alt: 'G' }
+    ],
+    'HLA-B*58:01': [
+        { rsid: 'rs9263726', chrom: '6', positions: { GRCh37: 31107258, GRCh38: 31139481 }, ref: 'G', alt: 'A' }
+    ]
+};
+
+interface GeneRegion {
+    chrom: string;
+    positions: Record<GenomeBuild, [number, number]>; // Gene start and end
+}
+
+// Genes whose copy number is read from structural variant / CNV records
+const COPY_NUMBER_REGIONS: Record<string, GeneRegion> = {
+    CYP2D6: { chrom: '22', positions: { GRCh37: [42522501, 42526883], GRCh38: [42126499, 42130881] } }
 };
 
-function getGenotype(variant: VCFVariant | undefined): string | null {
-    if (!variant || !variant.sampleData || variant.sampleData.length === 0) return null;
-    const gt = variant.sampleData[0];
-    if (gt === '0/0' || gt === '0/1' || gt === '1/1') return gt;
-    return null; // Invalid or missing
+const ALL_TARGETS = Object.values(TARGET_VARIANTS).flat();
+const TARGET_RSIDS = new Set(ALL_TARGETS.map(t => t.rsid));
+
+function locusKey(chrom: string, pos: number): string {
+    return `${normalizeChromosome(chrom)}:${pos}`;
+}
+
+const TARGET_LOCI = new Set(ALL_TARGETS.flatMap(t => Object.values(t.positions).map(pos => locusKey(t.chrom, pos))));
+
+/**
+ * Streaming pre-filter: true when a VCF record sits at one of the targeted
+ * pharmacogene loci (by coordinates or rsID) and therefore has to be parsed.
+ */
+export function isTargetedLocus(chrom: string, pos: number, id: string): boolean {
+    return TARGET_LOCI.has(locusKey(chrom, pos)) || TARGET_RSIDS.has(id);
+}
+
+/**
+ * Streaming pre-filter for gVCF reference blocks and structural variants: true
+ * when the record's range covers a targeted position, or overlaps a gene whose
+ * copy number is assessed, in either build.
+ */
+export function overlapsTargetedLocus(chrom: string, start: number, end: number): boolean {
+    const normalized = normalizeChromosome(chrom);
+    return ALL_TARGETS.some(t => t.chrom === normalized && Object.values(t.positions).some(pos => pos >= start && pos <= end))
+        || Object.values(COPY_NUMBER_REGIONS).some(r => r.chrom === normalized && Object.values(r.positions).some(([geneStart, geneEnd]) => start <= geneEnd && end >= geneStart));
+}
+
+const TARGETS_BY_RSID = new Map(ALL_TARGETS.map(t => [t.rsid, t]));
+const TARGETS_BY_LOCUS = new Map(ALL_TARGETS.flatMap(t => Object.values(t.positions).map(pos => [locusKey(t.chrom, pos), t] as const)));
+
+/**
+ * Forward-strand REF/ALT of the target at a locus or rsID, used to orient
+ * genotype-only input (consumer array exports carry no REF column).
+ */
+export function targetAlleles(chrom: string, pos: number, id: string): { ref: string; alt: string } | null {
+    const target = TARGETS_BY_RSID.get(id) ?? TARGETS_BY_LOCUS.get(locusKey(chrom, pos));
+    return target ? { ref: target.ref, alt: target.alt } : null;
+}
+
+const COMPLEMENT: Record<string, string> = { A: 'T', T: 'A', C: 'G', G: 'C' };
+
+function reverseComplement(allele: string): string {
+    return allele.split('').reverse().map(base => COMPLEMENT[base] ?? base).join('');
+}
+
+/**
+ * GT index of the ALT allele that carries the tested variant, 0 when the site
+ * was called but the tested allele is not among the ALTs, or null when the
+ * record's REF does not match the target at all.
+ * With `allowReverseStrand`, records annotated on the minus strand are matched
+ * by complementing alleles (only sensible for rsID matches).
+ */
+function matchingAltIndex(variant: VCFVariant, target: TargetVariant, allowReverseStrand: boolean): number | null {
+    if (variant.ref === target.ref) {
+        return variant.alts.indexOf(target.alt) + 1;
+    }
+    if (allowReverseStrand && variant.ref === reverseComplement(target.ref)) {
+        return variant.alts.indexOf(reverseComplement(target.alt)) + 1;
+    }
+    return null;
+}
+
+interface TargetMatch {
+    variant: VCFVariant;
+    altIndex: number; // 0 when the tested allele is not among the record's ALTs
+    matchedBy: 'coordinates' | 'rsid' | 'reference-block';
+}
+
+/**
+ * Finds the record that genotypes a target variant.
+ * Coordinates plus REF/ALT are authoritative; a record carrying the tested ALT
+ * wins over one at the same position with other ALTs (split multi-allelics).
+ * Only the position for `build` is checked when the build is known, both otherwise.
+ * The rsID is only consulted when no record matches by position.
+ */
+function findTargetRecord(
+    target: TargetVariant,
+    build: GenomeBuild | null,
+    byLocus: Map<string, VCFVariant[]>,
+    byId: Map<string, VCFVariant>
+): TargetMatch | null {
+    let sameSite: TargetMatch | null = null;
+    const positions = (build ? [target.positions[build]] : Object.values(target.positions)).filter((pos): pos is number => pos !== undefined);
+
+    for (const pos of positions) {
+        for (const variant of byLocus.get(locusKey(target.chrom, pos)) ?? []) {
+            const altIndex = matchingAltIndex(variant, target, false);
+            if (altIndex === null) continue;
+            if (altIndex > 0) return { variant, altIndex, matchedBy: 'coordinates' };
+            sameSite = sameSite ?? { variant, altIndex, matchedBy: 'coordinates' };
+        }
+    }
+    if (sameSite) return sameSite;
+
+    const variant = byId.get(target.rsid);
+    if (!variant) return null;
+    const altIndex = matchingAltIndex(variant, target, true);
+    return altIndex === null ? null : { variant, altIndex, matchedBy: 'rsid' };
+}
+
+/**
+ * Finds the gVCF reference block that spans a target's position. Blocks are only
+ * trusted when the build is known, since a block covering the other build's
+ * coordinate says nothing about the target.
+ */
+function findReferenceBlock(target: TargetVariant, build: GenomeBuild | null, blocks: VCFVariant[]): TargetMatch | null {
+    const pos = build ? target.positions[build] : undefined;
+    if (pos === undefined) return null;
+    const block = blocks.find(b => b.chrom === target.chrom && b.pos <= pos && b.end >= pos);
+    return block ? { variant: block, altIndex: 0, matchedBy: 'reference-block' } : null;
+}
+
+/**
+ * Number of copies of the tested allele in one sample's call
+ * (0..ploidy), or null for missing / partial no-calls.
+ */
+function getAltDosage(match: TargetMatch | null, sampleIndex: number): number | null {
+    if (!match) return null;
+    const call = match.variant.genotypes[sampleIndex];
+    if (!call || call.ploidy === 0 || call.alleles.some(a => a === null)) return null;
+    if (match.altIndex === 0) return 0;
+
+    return call.alleles.filter(a => a === match.altIndex).length;
+}
+
+function classifyCoverage(dosage: number | null): TargetCoverage {
+    if (dosage === null) return 'uncovered';
+    return dosage > 0 ? 'called-variant' : 'called-reference';
+}
+
+// ---------------------------------------------------------
+// COPY NUMBER
+// ---------------------------------------------------------
+
+const COPY_NUMBER_ALTS = /^<(DEL|DUP|CNV|CN\d+)(:.*)?>$/;
+
+/**
+ * True for structural variant / CNV records (`<DEL>`, `<DUP>`, `<CNV>`, `<CN0>`...)
+ * and records carrying a CN field. These describe gene copy number, not a target site.
+ */
+function isCopyNumberRecord(variant: VCFVariant): boolean {
+    return variant.alts.some(a => COPY_NUMBER_ALTS.test(a)) || 'CN' in variant.info || variant.genotypes.some(g => g.copyNumber !== null);
+}
+
+/**
+ * Copies of the gene carried by one allele of a structural variant record:
+ * 1 for REF, 0 for `<DEL>`, 2 for `<DUP>`, n for `<CNn>`; null when unknown (`<CNV>`).
+ */
+function alleleCopies(variant: VCFVariant, allele: number): number | null {
+    if (allele === 0) return 1;
+    const alt = variant.alts[allele - 1] ?? '';
+    if (alt.startsWith('<DEL')) return 0;
+    if (alt.startsWith('<DUP')) return 2;
+    const copies = /^<CN(\d+)>$/.exec(alt);
+    return copies ? parseInt(copies[1], 10) : null;
 }
 
-export function generatePharmacogenomicProfile(variants: VCFVariant[]): PatientProfile {
-    const genes: Record<string, { diplotype: string; phenotype: string; activityScore?: number }> = {};
+/**
+ * Total copy number of one sample from a structural variant record: FORMAT CN,
+ * then INFO CN, then the copies implied by the GT alleles. Null when undetermined.
+ */
+function recordCopyNumber(variant: VCFVariant, call: GenotypeCall): number | null {
+    if (call.copyNumber !== null) return call.copyNumber;
+    const infoCopies = Number(variant.info.CN);
+    if (variant.info.CN !== undefined && Number.isInteger(infoCopies)) return infoCopies;
+    if (call.ploidy === 0 || call.alleles.some(a => a === null)) return null;
+
+    const copies = call.alleles.map(a => alleleCopies(variant, a as number));
+    return copies.some(c => c === null) ? null : (copies as number[]).reduce((sum, c) => sum + c, 0);
+}
+
+/**
+ * Reads a gene's copy number from the passing structural variant records that
+ * overlap it. A record reporting a gain or loss wins over records reporting two
+ * copies (e.g. a `<DUP>` row genotyped 0/0 next to a `<DEL>` row genotyped 0/1).
+ * Only the region for `build` is checked when the build is known. Records failing
+ * the quality thresholds are ignored; without any usable record the caller
+ * assumes two copies.
+ */
+function findCopyNumber(
+    region: GeneRegion,
+    build: GenomeBuild | null,
+    records: VCFVariant[],
+    sampleIndex: number,
+    thresholds: CallQualityThresholds
+): number | null {
+    const ranges = build ? [region.positions[build]] : Object.values(region.positions);
+    let copyNumber: number | null = null;
+
+    for (const variant of records) {
+        if (variant.chrom !== region.chrom || !ranges.some(([start, end]) => variant.pos <= end && variant.end >= start)) continue;
+        const call = variant.genotypes[sampleIndex];
+        if (!call || assessCallQuality(variant, call, thresholds).failures.length > 0) continue;
+        const copies = recordCopyNumber(variant, call);
+        if (copies !== null && copies !== 2) return copies;
+        copyNumber = copyNumber ?? copies;
+    }
+    return copyNumber;
+}
+
+// ---------------------------------------------------------
+// HAPLOTYPE PHASING
+// ---------------------------------------------------------
+
+interface CarrierCall {
+    rsid: string;
+    call: GenotypeCall;
+    altIndex: number;
+}
+
+type Haplotypes = [string[], string[]];
+
+// Limits the cis/trans combinations enumerated for unphased calls (2^(groups - 1))
+const MAX_PHASE_GROUPS = 6;
+
+/**
+ * Assigns the tested alleles of one gene to the two chromosomes.
+ * Homozygous calls sit on both; heterozygous calls are placed by GT order when
+ * they are phased in the same phase set (a missing PS counts as one shared set).
+ * Each phase set, and each unphased call, is a block whose orientation relative
+ * to the other blocks is unknown, so every orientation is returned as a candidate.
+ */
+function resolveHaplotypes(carriers: CarrierCall[]): { status: PhaseStatus; configurations: Haplotypes[] } {
+    const shared: string[] = [];
+    const blocks = new Map<string, Haplotypes>();
+
+    carriers.forEach(({ rsid, call, altIndex }, i) => {
+        const onHaplotype = [0, 1].map(h => call.alleles[h] === altIndex);
+        if (onHaplotype[0] && onHaplotype[1]) {
+            shared.push(rsid);
+            return;
+        }
+        const key = call.phased ? `PS:${call.phaseSet ?? ''}` : `unphased:${i}`;
+        const block = blocks.get(key) ?? [[], []];
+        // Unphased heterozygous calls are placed on the first chromosome of their own block
+        const side = call.phased && onHaplotype[1] ? 1 : 0;
+        block[side].push(rsid);
+        blocks.set(key, block);
+    });
+
+    const blockList = [...blocks.values()];
+    let status: PhaseStatus = 'unambiguous';
+    if (blockList.length > 1) status = 'ambiguous';
+    else if (blockList.length === 1 && blockList[0][0].length + blockList[0][1].length > 1) status = 'phased';
+
+    const orientations = Math.pow(2, Math.max(0, Math.min(blockList.length, MAX_PHASE_GROUPS) - 1));
+    const configurations: Haplotypes[] = [];
+    const seen = new Set<string>();
+
+    for (let mask = 0; mask < orientations; mask++) {
+        const haplotypes: Haplotypes = [[...shared], [...shared]];
+        blockList.forEach((block, b) => {
+            const flip = b > 0 && (mask >> (b - 1)) & 1;
+            haplotypes[0].push(...block[flip ? 1 : 0]);
+            haplotypes[1].push(...block[flip ? 0 : 1]);
+        });
+
+        const key = haplotypes.map(h => [...h].sort().join('+')).sort().join('/');
+        if (seen.has(key)) continue;
+        seen.add(key);
+        configurations.push(haplotypes);
+    }
+
+    return { status, configurations };
+}
+
+interface CopyConfiguration {
+    haplotypes: Haplotypes;
+    copies: [number, number]; // Gene copies on each chromosome (0 = deleted)
+}
+
+/**
+ * Haplotype arrangements given the gene's copy number. With one copy every carried
+ * variant sits on the remaining chromosome, opposite a deletion; with none both
+ * chromosomes carry the deletion. Extra copies are placed together on either
+ * chromosome, since which allele is duplicated cannot be told from SNV calls.
+ */
+function resolveCopyNumber(carriers: CarrierCall[], copies: number): { status: PhaseStatus; configurations: CopyConfiguration[] } {
+    if (copies === 0) return { status: 'unambiguous', configurations: [{ haplotypes: [[], []], copies: [0, 0] }] };
+    if (copies === 1) return { status: 'unambiguous', configurations: [{ haplotypes: [carriers.map(c => c.rsid), []], copies: [1, 0] }] };
+
+    const resolved = resolveHaplotypes(carriers);
+    const configurations = resolved.configurations.flatMap((haplotypes): CopyConfiguration[] => {
+        if (copies === 2) return [{ haplotypes, copies: [1, 1] }];
+        const identical = [...haplotypes[0]].sort().join('+') === [...haplotypes[1]].sort().join('+');
+        return identical
+            ? [{ haplotypes, copies: [copies - 1, 1] }]
+            : [{ haplotypes, copies: [copies - 1, 1] }, { haplotypes, copies: [1, copies - 1] }];
+    });
+    return { status: resolved.status, configurations };
+}
+
+function variantHaplotypeCount(haplotypes: Haplotypes): number {
+    return haplotypes.filter(h => h.length > 0).length;
+}
+
+interface NamedConfiguration extends DiplotypeCandidate {
+    alleles: [HaplotypeCall, HaplotypeCall];
+    exact: boolean; // Both haplotypes match a star-allele definition exactly
+}
+
+/**
+ * Names both haplotypes. `copies` gives the gene copies on each chromosome:
+ * 0 is the gene's deletion allele, 2+ a duplication of the allele named there.
+ */
+function nameConfiguration(gene: string, haplotypes: Haplotypes, copies: [number, number] = [1, 1]): NamedConfiguration {
+    const alleles = haplotypes.map((variants, h) => {
+        if (copies[h] === 0) return deletionAllele(gene) ?? nameHaplotype(gene, variants);
+        return { ...nameHaplotype(gene, variants), copies: copies[h] };
+    }) as [HaplotypeCall, HaplotypeCall];
+    return {
+        haplotypes,
+        alleles,
+        diplotype: formatDiplotype(alleleLabel(alleles[0]), alleleLabel(alleles[1])),
+        exact: alleles.every(a => a.exact),
+        ...translatePhenotype(gene, alleles)
+    };
+}
+
+/**
+ * Picks the reported diplotype among the haplotype arrangements.
+ * Arrangements made only of defined star alleles are preferred, and among those
+ * the one needing the fewest variant haplotypes (e.g. *1/*3A over *3B/*3C), as
+ * clinical genotyping reports do. Remaining ties, and arrangements that are not
+ * fully defined, go to the lowest-function one so dosing errs on the side of caution.
+ */
+function selectDiplotype(gene: string, configurations: NamedConfiguration[]): { primary: NamedConfiguration; pool: NamedConfiguration[] } {
+    // Lower phenotype first, then lower activity score within the same phenotype
+    const lowerFunction = (a: NamedConfiguration, b: NamedConfiguration) =>
+        phenotypeRank(gene, a.phenotype) - phenotypeRank(gene, b.phenotype) || (a.activityScore ?? 0) - (b.activityScore ?? 0);
+    const lowest = (pool: NamedConfiguration[]) => pool.reduce((best, c) => lowerFunction(c, best) < 0 ? c : best);
+
+    const explained = configurations.filter(c => c.exact);
+    if (explained.length > 0) {
+        const fewest = Math.min(...explained.map(c => variantHaplotypeCount(c.haplotypes)));
+        const primary = lowest(explained.filter(c => variantHaplotypeCount(c.haplotypes) === fewest));
+        return { primary, pool: explained };
+    }
+
+    return { primary: lowest(configurations), pool: configurations };
+}
+
+// ---------------------------------------------------------
+// CALL QUALITY
+// ---------------------------------------------------------
+
+// GCI weight of a call that passed but carried no DP/GQ evidence (GT-only VCFs)
+const UNVERIFIED_CALL_WEIGHT = 0.9;
+
+/**
+ * Checks one sample's call against the quality thresholds.
+ * Fields absent from the VCF are not held against the call, but a call without
+ * any DP/GQ evidence is flagged as unverified for GCI weighting.
+ */
+function assessCallQuality(variant: VCFVariant, call: GenotypeCall, thresholds: CallQualityThresholds): { failures: string[]; verified: boolean } {
+    const failures: string[] = [];
+
+    if (thresholds.requirePass) {
+        if (variant.filter !== 'PASS' && variant.filter !== '.') failures.push(`FILTER ${variant.filter}`);
+        if (call.sampleFilter && call.sampleFilter !== 'PASS') failures.push(`FT ${call.sampleFilter}`);
+    }
+
+    const qual = parseFloat(variant.qual);
+    if (Number.isFinite(qual) && qual < thresholds.minQual) {
+        failures.push(`QUAL ${qual} < ${thresholds.minQual}`);
+    }
+    if (call.depth !== null && call.depth < thresholds.minDepth) {
+        failures.push(`DP ${call.depth} < ${thresholds.minDepth}`);
+    }
+    if (call.genotypeQuality !== null && call.genotypeQuality < thresholds.minGenotypeQuality) {
+        failures.push(`GQ ${call.genotypeQuality} < ${thresholds.minGenotypeQuality}`);
+    }
+
+    // Allele balance of heterozygous calls: reads for the higher allele over both alleles.
+    // Copy-number calls may carry no-call (null) alleles; those have no balance to check.
+    const alleles = call.alleles.filter((allele): allele is number => allele !== null);
+    const low = Math.min(...alleles);
+    const high = Math.max(...alleles);
+    if (call.alleleDepths && alleles.length === call.alleles.length && low !== high) {
+        const lowReads = call.alleleDepths[low] ?? 0;
+        const highReads = call.alleleDepths[high] ?? 0;
+        if (lowReads + highReads > 0) {
+            const balance = highReads / (lowReads + highReads);
+            const [minBalance, maxBalance] = thresholds.alleleBalance;
+            if (balance < minBalance || balance > maxBalance) {
+                failures.push(`Allele balance ${balance.toFixed(2)} outside ${minBalance}-${maxBalance}`);
+            }
+        }
+    }
+
+    return { failures, verified: call.depth !== null || call.genotypeQuality !== null };
+}
+
+/**
+ * Builds the PGx profile of one sample (see ProfileOptions).
+ * Calls failing the quality thresholds are treated as no-calls and reported
+ * with the reason; the GCI weighs coverage by call quality.
+ */
+export function generatePharmacogenomicProfile(variants: VCFVariant[], options: ProfileOptions = {}): PatientProfile {
+    const sampleIndex = options.sampleIndex ?? 0;
+    const build = options.build ?? null;
+    const thresholds = { ...DEFAULT_QUALITY_THRESHOLDS, ...options.quality };
+
+    const genes: Record<string, GeneResult> = {};
     let totalTargetedVariants = 0;
-    let successfullyParsedVariants = 0;
+    let confidentCallWeight = 0;
 
     const variantMap = new Map<string, VCFVariant>();
+    const locusMap = new Map<string, VCFVariant[]>();
+    const referenceBlocks: VCFVariant[] = [];
+    const copyNumberRecords: VCFVariant[] = [];
     for (const v of variants) {
+        if (v.referenceBlock) {
+            referenceBlocks.push(v);
+            continue;
+        }
+        if (isCopyNumberRecord(v)) {
+            copyNumberRecords.push(v);
+            continue;
+        }
         if (v.id) {
             variantMap.set(v.id, v);
         }
+        const key = locusKey(v.chrom, v.pos);
+        locusMap.set(key, [...(locusMap.get(key) ?? []), v]);
     }
 
-    for (const [gene, rsids] of Object.entries(TARGET_VARIANTS)) {
-        totalTargetedVariants += rsids.length;
+    for (const [gene, targets] of Object.entries(TARGET_VARIANTS)) {
+        totalTargetedVariants += targets.length;
 
-        let alteredAlleles = 0;
         let missingOrInvalid = false;
+        const calls: TargetCall[] = [];
+        const carriers: CarrierCall[] = [];
+        const ploidies: number[] = [];
+
+        for (const target of targets) {
+            // Without a variant record, a gVCF reference block over the site is a reference call
+            const match = findTargetRecord(target, build, locusMap, variantMap) ?? findReferenceBlock(target, build, referenceBlocks);
+            let dosage = getAltDosage(match, sampleIndex);
+            let qualityFlags: string[] = [];
+
+            if (match && dosage !== null) {
+                const quality = assessCallQuality(match.variant, match.variant.genotypes[sampleIndex], thresholds);
+                qualityFlags = quality.failures;
+                if (qualityFlags.length > 0) {
+                    dosage = null; // Failing calls count as no-calls
+                } else {
+                    confidentCallWeight += quality.verified ? 1 : UNVERIFIED_CALL_WEIGHT;
+                }
+            }
 
-        for (const rsid of rsids) {
-            const v = variantMap.get(rsid);
-            const gt = getGenotype(v);
+            calls.push({
+                rsid: target.rsid,
+                genotype: match ? match.variant.sampleData[sampleIndex] ?? 'Unknown' : 'Unknown',
+                dosage,
+                matchedBy: match ? match.matchedBy : null,
+                coverage: classifyCoverage(dosage),
+                qualityFlags
+            });
 
-            if (!gt) {
+            if (dosage === null) {
                 missingOrInvalid = true;
-            } else {
-                successfullyParsedVariants++;
-                if (gt === '0/1') alteredAlleles += 1;
-                if (gt === '1/1') alteredAlleles += 2;
+            } else if (match) {
+                ploidies.push(match.variant.genotypes[sampleIndex].ploidy);
+            }
+            if (match && dosage !== null && dosage > 0) {
+                carriers.push({ rsid: target.rsid, call: match.variant.genotypes[sampleIndex], altIndex: match.altIndex });
             }
         }
 
-        if (missingOrInvalid) {
-            genes[gene] = { diplotype: 'Unknown', phenotype: 'Indeterminate', activityScore: -1 };
+        // Copy number is only assessed for genes with a defined region (CYP2D6); two copies otherwise
+        const region = COPY_NUMBER_REGIONS[gene];
+        const requestedCopies = region ? options.copyNumbers?.[gene] : undefined;
+        const vcfCopies = region && requestedCopies === undefined ? findCopyNumber(region, build, copyNumberRecords, sampleIndex, thresholds) : null;
+        const copyNumber: CopyNumberCall | undefined = requestedCopies !== undefined
+            ? { copies: requestedCopies, source: 'request' }
+            : vcfCopies !== null ? { copies: vcfCopies, source: 'vcf' } : undefined;
+        const copies = copyNumber?.copies ?? 2;
+
+        // A homozygous deletion needs no SNV calls, and a risk allele found settles carrier
+        // status even when other targets were not called
+        const carrierFound = PHENOTYPE_TABLES[gene]?.method === 'carrier' && carriers.length > 0;
+        const hemizygous = ploidies.length > 0 && ploidies.every(p => p === 1);
+
+        if (missingOrInvalid && copies > 0 && !carrierFound) {
+            genes[gene] = { diplotype: 'Unknown', phenotype: INDETERMINATE, calls, copyNumber };
+        } else if (hemizygous) {
+            // One chromosome (X-linked genes in males): its allele is translated paired with itself
+            const haplotype = carriers.map(c => c.rsid);
+            const named = nameConfiguration(gene, [haplotype, haplotype]);
+            genes[gene] = {
+                diplotype: alleleLabel(named.alleles[0]),
+                phenotype: named.phenotype,
+                calls,
+                phase: 'unambiguous',
+                haplotypes: named.haplotypes,
+                alleles: named.alleles,
+                hemizygous: true
+            };
         } else {
-            let phenotype = 'Normal Metabolizer';
-            if (gene === 'SLCO1B1') phenotype = 'Normal Function';
+            const resolved = resolveCopyNumber(carriers, copies);
+            const { primary, pool } = selectDiplotype(gene, resolved.configurations.map(c => nameConfiguration(gene, c.haplotypes, c.copies)));
 
-            let diplotype = '*1/*1';
+            let phase = resolved.status;
+            const distinctDiplotypes = new Set(pool.map(c => c.diplotype));
+            if (phase === 'ambiguous' && distinctDiplotypes.size === 1) phase = 'inferred';
+            if (distinctDiplotypes.size > 1) phase = 'ambiguous';
 
-            if (alteredAlleles === 1) {
-                phenotype = gene === 'SLCO1B1' ? 'Decreased Function' : 'Intermediate Metabolizer';
-                diplotype = 'Variant/*1'; // Generic placeholder for exactly one varied allele
-            } else if (alteredAlleles >= 2) {
-                phenotype = gene === 'SLCO1B1' ? 'Poor Function' : 'Poor Metabolizer';
-                diplotype = 'Variant/Variant';
-            }
+            genes[gene] = {
+                diplotype: primary.diplotype,
+                phenotype: primary.phenotype,
+                activityScore: primary.activityScore,
+                calls,
+                phase,
+                haplotypes: primary.haplotypes,
+                alleles: primary.alleles,
+                copyNumber
+            };
 
-            // Approximate Activity Score for twin analysis scaling
-            let activityScore = 2.0;
-            if (alteredAlleles === 1) activityScore = 1.0;
-            if (alteredAlleles >= 2) activityScore = 0.0;
+            if (phase === 'ambiguous') {
+                genes[gene].candidates = pool.map(({ haplotypes, diplotype, phenotype, activityScore }) => ({ haplotypes, diplotype, phenotype, activityScore }));
+            }
+        }
+    }
 
-            genes[gene] = { diplotype, phenotype, activityScore };
+    // Typed HLA-B alleles take precedence over tag SNPs; alleles without a tag need typing
+    for (const gene of Object.keys(HLA_RISK_ALLELES)) {
+        if (options.hlaTyping) {
+            const alleles = typedHlaAlleles(gene, options.hlaTyping);
+            genes[gene] = {
+                diplotype: formatDiplotype(alleles[0].name, alleles[1].name),
+                ...translatePhenotype(gene, alleles),
+                calls: genes[gene]?.calls,
+                phase: 'unambiguous',
+                alleles,
+                source: 'typed'
+            };
+        } else if (genes[gene]) {
+            genes[gene].source = 'tag-snp';
+        } else {
+            genes[gene] = { diplotype: 'Unknown', phenotype: INDETERMINATE };
         }
     }
 
-    // Calculate dynamic GCI Score based strictly on coverage of requested targeted variants
+    // Calculate dynamic GCI Score from coverage of targeted variants, weighted by call quality
     let gciScore = 0;
     if (totalTargetedVariants > 0) {
-        gciScore = Math.round((successfullyParsedVariants / totalTargetedVariants) * 100);
+        gciScore = Math.round((confidentCallWeight / totalTargetedVariants) * 100);
     }
 
     return { genes, gciScore };
@@ -106,104 +772,134 @@ export function generatePharmacogenomicProfile(variants: VCFVariant[]): PatientP
 
 /**
  * Clinical Decision Support (CDS) Rules Engine
- * Enforces strictly Safe / Adjust Dosage / Toxic risk categories.
- */
-export function evaluateDrugRisk(targetDrug: string, profile: PatientProfile): DrugRiskAssessment {
-    const drug = targetDrug.toUpperCase();
-
-    switch (drug) {
-        case 'CODEINE': {
-            const p = profile.genes['CYP2D6'] || { phenotype: 'Indeterminate' };
-            const mechanism = 'CYP2D6_activation';
-            if (p.phenotype === 'Poor Metabolizer') return { drug, risk: 'Toxic', gene: 'CYP2D6', mechanism: 'Prodrug Activation', ...p, recommendation: 'Avoid codeine explicitly due to lack of efficacy (failure to activate to morphine). Prescribe alternative non-CYP2D6 dependent analgesics.', evidenceStrength: 'CPIC Level A' };
-            if (p.phenotype === 'Intermediate Metabolizer') return { drug, risk: 'Adjust Dosage', gene: 'CYP2D6', mechanism: 'Prodrug Activation', ...p, recommendation: 'Reduced prodrug activation results in lower morphine formation and potential reduced analgesic response. Consider alternative opioid not dependent on CYP2D6. Avoid dose escalation without specialist review.', evidenceStrength: 'CPIC Level A' };
-            if (p.phenotype === 'Ultrarapid Metabolizer') return { drug, risk: 'Toxic', gene: 'CYP2D6', mechanism: 'Prodrug Activation', ...p, recommendation: 'Avoid codeine due to potential for life-threatening respiratory depression from rapid morphine accumulation.', evidenceStrength: 'CPIC Level A' };
-            // Fallback for Indeterminate or Normal
-            if (p.phenotype === 'Indeterminate') return { drug, risk: 'Adjust Dosage', gene: 'CYP2D6', mechanism: 'Prodrug Activation', ...p, recommendation: 'Genomic profile indeterminate. Use clinical caution.', evidenceStrength: 'Standard of Care' };
-            return { drug, risk: 'Safe', gene: 'CYP2D6', mechanism: 'Prodrug Activation', ...p, recommendation: 'Safe to use standard dosing.', evidenceStrength: 'CPIC Level A' };
-        }
-        case 'WARFARIN': {
-            const p = profile.genes['CYP2C9'] || { phenotype: 'Indeterminate' };
-            const mechanism = 'Active Clearance';
-            if (p.phenotype === 'Poor Metabolizer') return { drug, risk: 'Toxic', gene: 'CYP2C9', mechanism, ...p, recommendation: 'Reduce dose 50-75%. High risk of severe bleeding.', evidenceStrength: 'CPIC Level A' };
-            if (p.phenotype === 'Intermediate Metabolizer') return { drug, risk: 'Adjust Dosage', gene: 'CYP2C9', mechanism, ...p, recommendation: 'Moderate reduction. Monitor INR closely.', evidenceStrength: 'CPIC Level A' };
-            if (p.phenotype === 'Indeterminate') return { drug, risk: 'Adjust Dosage', gene: 'CYP2C9', mechanism, ...p, recommendation: 'Genomic profile indeterminate. Use standard clinical INR protocols.', evidenceStrength: 'Standard of Care' };
-            return { drug, risk: 'Safe', gene: 'CYP2C9', mechanism, ...p, recommendation: 'Standard dosing protocol.', evidenceStrength: 'CPIC Level A' };
-        }
-        case 'CLOPIDOGREL': {
-            const p = profile.genes['CYP2C19'] || { phenotype: 'Indeterminate' };
-            const mechanism = 'Prodrug Activation';
-            if (p.phenotype === 'Poor Metabolizer') return { drug, risk: 'Toxic', gene: 'CYP2C19', mechanism, ...p, recommendation: 'Avoid clopidogrel (cannot activate prodrug to active thiol metabolite). Prescribe alternative antiplatelet.', evidenceStrength: 'CPIC Level A' };
-            if (p.phenotype === 'Intermediate Metabolizer') return { drug, risk: 'Adjust Dosage', gene: 'CYP2C19', mechanism, ...p, recommendation: 'Consider alternative antiplatelet therapy. CYP2C19 activation to active thiol metabolite is significantly reduced.', evidenceStrength: 'CPIC Level A' };
-            if (p.phenotype === 'Indeterminate') return { drug, risk: 'Adjust Dosage', gene: 'CYP2C19', mechanism, ...p, recommendation: 'Profile indeterminate. Proceed with clinical standard of care.', evidenceStrength: 'Standard of Care' };
-            return { drug, risk: 'Safe', gene: 'CYP2C19', mechanism, ...p, recommendation: 'Standard dosing.', evidenceStrength: 'CPIC Level A' };
-        }
-        case 'SIMVASTATIN': {
-            const p = profile.genes['SLCO1B1'] || { phenotype: 'Indeterminate' };
-            const mechanism = 'Transporter';
-            if (p.phenotype === 'Poor Function' || p.phenotype === 'Decreased Function') return { drug, risk: 'Adjust Dosage', gene: 'SLCO1B1', mechanism, ...p, recommendation: 'Dose cap at 20mg daily or prescribe alternative statin (e.g., rosuvastatin) due to myopathy risk.', evidenceStrength: 'CPIC Level A' };
-            if (p.phenotype === 'Indeterminate') return { drug, risk: 'Adjust Dosage', gene: 'SLCO1B1', mechanism, ...p, recommendation: 'Profile indeterminate. Monitor standard statin limits.', evidenceStrength: 'Standard of Care' };
-            return { drug, risk: 'Safe', gene: 'SLCO1B1', mechanism, ...p, recommendation: 'Standard dosing.', evidenceStrength: 'CPIC Level A' };
-        }
-        case 'AZATHIOPRINE': {
-            const p = profile.genes['TPMT'] || { phenotype: 'Indeterminate' };
-            const mechanism = 'Active Clearance';
-            if (p.phenotype === 'Poor Metabolizer') return { drug, risk: 'Toxic', gene: 'TPMT', mechanism, ...p, recommendation: 'Start at 10% standard dose 3x weekly. High risk of myelosuppression.', evidenceStrength: 'CPIC Level A' };
-            if (p.phenotype === 'Intermediate Metabolizer') return { drug, risk: 'Adjust Dosage', gene: 'TPMT', mechanism, ...p, recommendation: '30-80% dose reduction based on clinical judgment.', evidenceStrength: 'CPIC Level A' };
-            if (p.phenotype === 'Indeterminate') return { drug, risk: 'Adjust Dosage', gene: 'TPMT', mechanism, ...p, recommendation: 'Test enzymatically if proceeding. Profile indeterminate.', evidenceStrength: 'Standard of Care' };
-            return { drug, risk: 'Safe', gene: 'TPMT', mechanism, ...p, recommendation: 'Standard dosing.', evidenceStrength: 'CPIC Level A' };
-        }
-        case 'FLUOROURACIL': {
-            const p = profile.genes['DPYD'] || { phenotype: 'Indeterminate' };
-            const mechanism = 'Active Clearance';
-            if (p.phenotype === 'Poor Metabolizer') return { drug, risk: 'Toxic', gene: 'DPYD', mechanism, ...p, recommendation: 'Avoid completely due to severe, fatal toxicity risk.', evidenceStrength: 'CPIC Level A' };
-            if (p.phenotype === 'Intermediate Metabolizer') return { drug, risk: 'Adjust Dosage', gene: 'DPYD', mechanism, ...p, recommendation: '50% dose reduction. Monitor carefully.', evidenceStrength: 'CPIC Level A' };
-            if (p.phenotype === 'Indeterminate') return { drug, risk: 'Adjust Dosage', gene: 'DPYD', mechanism, ...p, recommendation: 'Profile indeterminate.', evidenceStrength: 'Standard of Care' };
-            return { drug, risk: 'Safe', gene: 'DPYD', mechanism, ...p, recommendation: 'Standard dosing.', evidenceStrength: 'CPIC Level A' };
-        }
-        case 'PHENYTOIN': {
-            const p = profile.genes['CYP2C9'] || { phenotype: 'Indeterminate' };
-            const mechanism = 'Active Clearance';
-            if (p.phenotype === 'Poor Metabolizer') return { drug, risk: 'Toxic', gene: 'CYP2C9', mechanism, ...p, recommendation: 'Reduce 50-75% of maintenance dose. TDM required.', evidenceStrength: 'CPIC Level A' };
-            if (p.phenotype === 'Intermediate Metabolizer') return { drug, risk: 'Adjust Dosage', gene: 'CYP2C9', mechanism, ...p, recommendation: 'Reduce 25-50% of maintenance dose. TDM recommended.', evidenceStrength: 'CPIC Level A' };
-            if (p.phenotype === 'Indeterminate') return { drug, risk: 'Adjust Dosage', gene: 'CYP2C9', mechanism, ...p, recommendation: 'Profile indeterminate. TDM required.', evidenceStrength: 'Standard of Care' };
-            return { drug, risk: 'Safe', gene: 'CYP2C9', mechanism, ...p, recommendation: 'Standard dosing.', evidenceStrength: 'CPIC Level A' };
-        }
-        // Retaining Amiodarone, Citalopram, Omeprazole just to cover the full target list cleanly
-        case 'AMIODARONE': {
-            const p = profile.genes['CYP2C9'] || { phenotype: 'Indeterminate' };
-            const mechanism = 'Active Clearance';
-            if (p.phenotype === 'Poor Metabolizer') return { drug, risk: 'Toxic', gene: 'CYP2C9', mechanism, ...p, recommendation: 'High risk of amiodarone toxicity. Heavily reduce dosing.', evidenceStrength: 'No CPIC Level A guideline currently available; interpretation based on pharmacokinetic evidence.' };
-            if (p.phenotype === 'Intermediate Metabolizer') return { drug, risk: 'Adjust Dosage', gene: 'CYP2C9', mechanism, ...p, recommendation: 'Consider lower maintenance dose.', evidenceStrength: 'No CPIC Level A guideline currently available; interpretation based on pharmacokinetic evidence.' };
-            if (p.phenotype === 'Indeterminate') return { drug, risk: 'Adjust Dosage', gene: 'CYP2C9', mechanism, ...p, recommendation: 'Profile indeterminate.', evidenceStrength: 'No CPIC Level A guideline currently available; interpretation based on pharmacokinetic evidence.' };
-            return { drug, risk: 'Safe', gene: 'CYP2C9', mechanism, ...p, recommendation: 'Standard dosing.', evidenceStrength: 'No CPIC Level A guideline currently available; interpretation based on pharmacokinetic evidence.' };
-        }
-        case 'CITALOPRAM': {
-            const p = profile.genes['CYP2C19'] || { phenotype: 'Indeterminate' };
-            const mechanism = 'Active Clearance';
-            if (p.phenotype === 'Poor Metabolizer') return { drug, risk: 'Toxic', gene: 'CYP2C19', mechanism, ...p, recommendation: 'Maximum dose 20mg/day to prevent QTc prolongation.', evidenceStrength: 'No CPIC Level A guideline currently available; interpretation based on pharmacokinetic evidence.' };
-            if (p.phenotype === 'Ultrarapid Metabolizer') return { drug, risk: 'Adjust Dosage', gene: 'CYP2C19', mechanism, ...p, recommendation: 'Consider alternative SSRI due to rapid clearance.', evidenceStrength: 'No CPIC Level A guideline currently available; interpretation based on pharmacokinetic evidence.' };
-            if (p.phenotype === 'Indeterminate') return { drug, risk: 'Adjust Dosage', gene: 'CYP2C19', mechanism, ...p, recommendation: 'Profile indeterminate.', evidenceStrength: 'No CPIC Level A guideline currently available; interpretation based on pharmacokinetic evidence.' };
-            return { drug, risk: 'Safe', gene: 'CYP2C19', mechanism, ...p, recommendation: 'Standard dosing.', evidenceStrength: 'No CPIC Level A guideline currently available; interpretation based on pharmacokinetic evidence.' };
-        }
-        case 'OMEPRAZOLE': {
-            const p = profile.genes['CYP2C19'] || { phenotype: 'Indeterminate' };
-            const mechanism = 'Active Clearance';
-            if (p.phenotype === 'Poor Metabolizer') return { drug, risk: 'Adjust Dosage', gene: 'CYP2C19', mechanism, ...p, recommendation: 'Consider lowering dose if treating long-term.', evidenceStrength: 'No CPIC Level A guideline currently available; interpretation based on pharmacokinetic evidence.' };
-            if (p.phenotype === 'Ultrarapid Metabolizer') return { drug, risk: 'Adjust Dosage', gene: 'CYP2C19', mechanism, ...p, recommendation: 'Increase dose by 100-200% or split dose.', evidenceStrength: 'No CPIC Level A guideline currently available; interpretation based on pharmacokinetic evidence.' };
-            if (p.phenotype === 'Indeterminate') return { drug, risk: 'Adjust Dosage', gene: 'CYP2C19', mechanism, ...p, recommendation: 'Profile indeterminate.', evidenceStrength: 'No CPIC Level A guideline currently available; interpretation based on pharmacokinetic evidence.' };
-            return { drug, risk: 'Safe', gene: 'CYP2C19', mechanism, ...p, recommendation: 'Standard dosing.', evidenceStrength: 'No CPIC Level A guideline currently available; interpretation based on pharmacokinetic evidence.' };
-        }
-        default:
-            return {
-                drug: targetDrug,
-                risk: 'Adjust Dosage',
-                gene: 'N/A',
-                mechanism: 'Unknown',
-                diplotype: 'Unknown',
-                phenotype: 'Indeterminate',
-                recommendation: 'Drug not analyzed by deterministic engine.',
-                evidenceStrength: 'None'
-            };
+ * Enforces strictly Safe / Adjust Dosage / Toxic risk categories by interpreting
+ * the guideline knowledge base (see knowledgeBase.ts). Brand names, salts,
+ * synonyms and prodrugs are evaluated under the guideline they resolve to.
+ */
+export function evaluateDrugRisk(targetDrug: string, profile: PatientProfile, context: PatientContext = {}, knowledgeBase: KnowledgeBase = KNOWLEDGE_BASE): DrugRiskAssessment {
+    const resolved = resolveDrugName(targetDrug, DRUG_DICTIONARY, knowledgeBase).analyzedAs;
+    const drug = resolved.length === 1 ? resolved[0] : targetDrug.toUpperCase();
+    const guideline = getDrugGuideline(drug, knowledgeBase);
+
+    if (!guideline) {
+        return {
+            drug: targetDrug,
+            risk: 'Adjust Dosage',
+            geneticRisk: 'Adjust Dosage',
+            contextFlags: [],
+            gene: 'N/A',
+            mechanism: 'Unknown',
+            diplotype: 'Unknown',
+            phenotype: 'Indeterminate',
+            recommendation: 'Drug not analyzed by deterministic engine.',
+            evidenceStrength: 'None',
+            provenance: { sources: [], cpicLevel: null, classification: null },
+            genes: [],
+            drivingGenes: [],
+            alternatives: [],
+            excludedAlternatives: [],
+            doseBasis: 'mg',
+            doseGuidance: null
+        };
+    }
+
+    const { rule, caveats, contextRules, geneticRisk, risk } = assessGuideline(guideline, profile, context);
+    const gene = guideline.genes[0];
+    const p = profile.genes[gene] || { phenotype: INDETERMINATE };
+    // The unconditional fallback applies because none of the genes matched a specific rule
+    const conditions = Object.keys(rule.when);
+    const drivingGenes = conditions.length > 0 ? guideline.genes.filter(g => conditions.includes(g)) : [...guideline.genes];
+
+    // Context alternatives replace the genetic ones, which may not suit the context (e.g. in pregnancy)
+    const contextAlternatives = contextRules.flatMap(r => r.alternatives ?? []);
+    // A Safe rule's "standard dosing" advice no longer holds once a context rule raises the risk
+    const geneticAdvice = rule.risk !== 'Safe' || contextRules.every(r => r.risk === undefined);
+    const provenance: Provenance = {
+        sources: citeGuidelines(rule.source ? [rule.source] : guideline.sources, knowledgeBase),
+        // A rule with its own source (e.g. standard of care) is not covered by the drug's CPIC level
+        cpicLevel: rule.source ? null : guideline.cpicLevel ?? null,
+        classification: rule.classification ?? null
+    };
+
+    return {
+        drug,
+        risk,
+        geneticRisk,
+        contextFlags: contextRules.map(r => ({
+            condition: describeContextCondition(r.context),
+            risk: r.risk ?? null,
+            recommendation: r.recommendation,
+            sources: citeGuidelines(r.sources, knowledgeBase)
+        })),
+        gene,
+        mechanism: guideline.mechanism,
+        ...p,
+        recommendation: [...contextRules.map(r => r.recommendation), ...(geneticAdvice ? [rule.recommendation] : []), ...caveats.map(c => c.recommendation)].join(' '),
+        evidenceStrength: describeProvenance(provenance),
+        provenance,
+        genes: [...guideline.genes],
+        drivingGenes,
+        ...assessAlternatives(contextAlternatives.length > 0 ? contextAlternatives : rule.alternatives ?? [], profile, context, knowledgeBase),
+        doseBasis: guideline.doseBasis ?? 'mg',
+        doseGuidance: rule.dose ?? null
+    };
+}
+
+/**
+ * Evidence summary of a provenance, e.g. "CPIC Level A (strong recommendation)"
+ * or "FDA: Camptosar (irinotecan) prescribing information".
+ */
+export function describeProvenance(provenance: Provenance): string {
+    const primary = provenance.sources[0];
+    if (!primary) return 'None';
+    const origin = provenance.cpicLevel && primary.body === 'CPIC'
+        ? `CPIC Level ${provenance.cpicLevel}`
+        : primary.body === 'None' || primary.title.startsWith(primary.body) ? primary.title : `${primary.body}: ${primary.title}`;
+    return provenance.classification ? `${origin} (${provenance.classification} recommendation)` : origin;
+}
+
+// Genes missing from the profile count as indeterminate
+function guidelinePhenotypes(guideline: DrugGuideline, profile: PatientProfile): Record<string, string> {
+    return Object.fromEntries(guideline.genes.map(gene => [gene, profile.genes[gene]?.phenotype ?? INDETERMINATE]));
+}
+
+const RISK_SEVERITY: RiskCategory[] = ['Safe', 'Adjust Dosage', 'Toxic'];
+
+function mostSevere(risks: RiskCategory[]): RiskCategory {
+    return risks.reduce((worst, risk) => RISK_SEVERITY.indexOf(risk) > RISK_SEVERITY.indexOf(worst) ? risk : worst, 'Safe');
+}
+
+/**
+ * Genetic rule and caveats of the drug, the context rules that apply to the
+ * patient, and the resulting risks: the most severe of the genetic ones, then of all
+ * (advisories carry none).
+ */
+function assessGuideline(guideline: DrugGuideline, profile: PatientProfile, context: PatientContext): { rule: GuidelineRule; caveats: GuidelineCaveat[]; contextRules: ContextRule[]; geneticRisk: RiskCategory; risk: RiskCategory } {
+    const phenotypes = guidelinePhenotypes(guideline, profile);
+    const rule = matchGuidelineRule(guideline, phenotypes);
+    const caveats = matchGuidelineCaveats(guideline, phenotypes);
+    const contextRules = matchContextRules(guideline, context);
+    const geneticRisk = mostSevere([rule.risk, ...caveats.map(c => c.risk)]);
+    const risk = mostSevere([geneticRisk, ...contextRules.flatMap(r => r.risk ?? [])]);
+    return { rule, caveats, contextRules, geneticRisk, risk };
+}
+
+/**
+ * Checks each alternative against the patient's own profile and context: it is
+ * offered when its guideline rates it Safe or no guideline covers it, and
+ * excluded otherwise.
+ */
+function assessAlternatives(candidates: GuidelineAlternative[], profile: PatientProfile, context: PatientContext, knowledgeBase: KnowledgeBase): Pick<DrugRiskAssessment, 'alternatives' | 'excludedAlternatives'> {
+    const alternatives: TherapeuticAlternative[] = [];
+    const excludedAlternatives: TherapeuticAlternative[] = [];
+    const unique = candidates.filter((c, i) => candidates.findIndex(other => other.drug === c.drug) === i);
+    for (const alternative of unique) {
+        const [drug] = resolveDrugName(alternative.drug, DRUG_DICTIONARY, knowledgeBase).analyzedAs;
+        const guideline = drug ? getDrugGuideline(drug, knowledgeBase) : null;
+        const assessedRisk = guideline ? assessGuideline(guideline, profile, context).risk : null;
+        const assessed = { ...alternative, assessedRisk };
+        if (assessedRisk === null || assessedRisk === 'Safe') alternatives.push(assessed);
+        else excludedAlternatives.push(assessed);
     }
+    return { alternatives, excludedAlternatives };
 }
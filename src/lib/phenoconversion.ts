@@ -0,0 +1,182 @@
+/**
+ * Phenoconversion: co-medications that inhibit or induce a drug-metabolizing
+ * enzyme shift the patient's effective phenotype away from the one predicted by
+ * genotype (a CYP2D6 normal metabolizer on paroxetine behaves like a poor
+ * metabolizer). Inhibition follows the activity-score approach of Cicali et al.
+ * (Clin Pharmacol Ther 2021): a strong inhibitor sets the activity score to 0 and
+ * a moderate inhibitor halves it; genes without activity scores move to Poor
+ * Metabolizer or one phenotype lower. Inducers raise the phenotype one step
+ * (moderate) or two (strong), except in poor metabolizers, who have no functional
+ * enzyme to induce.
+ */
+
+import { GeneResult, PatientProfile } from './pgxRulesBase';
+import { INDETERMINATE, PHENOTYPE_TABLES } from './phenotypes';
+
+export type ModulatorEffect = 'inhibitor' | 'inducer';
+export type ModulatorStrength = 'strong' | 'moderate';
+
+export interface EnzymeModulator {
+    effect: ModulatorEffect;
+    strength: ModulatorStrength;
+}
+
+export interface Perpetrator extends EnzymeModulator {
+    drug: string;
+}
+
+export interface Phenoconversion {
+    gene: string;
+    genotypicPhenotype: string;
+    genotypicActivityScore?: number;
+    phenotype: string; // Effective phenotype the drug risks are evaluated against
+    activityScore?: number;
+    perpetrators: Perpetrator[]; // Every co-medication acting on the enzyme
+    applied: Perpetrator | null; // The one that determined the effective phenotype
+}
+
+// ---------------------------------------------------------
+// MODULATOR TABLE (FDA clinical index of CYP inhibitors and inducers)
+// ---------------------------------------------------------
+
+const STRONG_INHIBITOR: EnzymeModulator = { effect: 'inhibitor', strength: 'strong' };
+const MODERATE_INHIBITOR: EnzymeModulator = { effect: 'inhibitor', strength: 'moderate' };
+const STRONG_INDUCER: EnzymeModulator = { effect: 'inducer', strength: 'strong' };
+const MODERATE_INDUCER: EnzymeModulator = { effect: 'inducer', strength: 'moderate' };
+
+// Keyed by enzyme gene, then canonical ingredient name (see drugNames.ts).
+// CYP2D6 is not inducible; CYP2C9 phenotypes stop at Normal Metabolizer, so its inducers are not modelled
+export const ENZYME_MODULATORS: Record<string, Record<string, EnzymeModulator>> = {
+    CYP2D6: {
+        BUPROPION: STRONG_INHIBITOR,
+        FLUOXETINE: STRONG_INHIBITOR,
+        PAROXETINE: STRONG_INHIBITOR,
+        QUINIDINE: STRONG_INHIBITOR,
+        TERBINAFINE: STRONG_INHIBITOR,
+        CINACALCET: MODERATE_INHIBITOR,
+        DULOXETINE: MODERATE_INHIBITOR,
+        MIRABEGRON: MODERATE_INHIBITOR
+    },
+    CYP2C19: {
+        FLUCONAZOLE: STRONG_INHIBITOR,
+        FLUOXETINE: STRONG_INHIBITOR,
+        FLUVOXAMINE: STRONG_INHIBITOR,
+        TICLOPIDINE: STRONG_INHIBITOR,
+        ESOMEPRAZOLE: MODERATE_INHIBITOR,
+        FELBAMATE: MODERATE_INHIBITOR,
+        OMEPRAZOLE: MODERATE_INHIBITOR,
+        RIFAMPIN: STRONG_INDUCER,
+        EFAVIRENZ: MODERATE_INDUCER,
+        ENZALUTAMIDE: MODERATE_INDUCER,
+        PHENYTOIN: MODERATE_INDUCER
+    },
+    CYP2C9: {
+        AMIODARONE: MODERATE_INHIBITOR,
+        FELBAMATE: MODERATE_INHIBITOR,
+        FLUCONAZOLE: MODERATE_INHIBITOR,
+        MICONAZOLE: MODERATE_INHIBITOR
+    }
+};
+
+// Activity score multiplier per inhibitor strength
+const INHIBITOR_ACTIVITY_FACTOR: Record<ModulatorStrength, number> = { strong: 0, moderate: 0.5 };
+
+// Phenotype steps per inducer strength
+const INDUCER_STEPS: Record<ModulatorStrength, number> = { strong: 2, moderate: 1 };
+
+const POOR_METABOLIZER = 'Poor Metabolizer';
+
+// ---------------------------------------------------------
+// EFFECTIVE PHENOTYPE
+// ---------------------------------------------------------
+
+function strongestOf(perpetrators: Perpetrator[], effect: ModulatorEffect): Perpetrator | null {
+    const matching = perpetrators.filter(p => p.effect === effect);
+    return matching.find(p => p.strength === 'strong') ?? matching[0] ?? null;
+}
+
+/**
+ * Phenotype `steps` positions up (positive) or down the gene's phenotype scale,
+ * clamped to its ends.
+ */
+function shiftPhenotype(gene: string, phenotype: string, steps: number): string {
+    const scale = PHENOTYPE_TABLES[gene].phenotypes;
+    const index = scale.indexOf(phenotype);
+    return scale[Math.min(Math.max(index + steps, 0), scale.length - 1)];
+}
+
+/**
+ * Effective phenotype and activity score of one gene under the given modulators.
+ * An inhibitor takes precedence over an inducer of the same enzyme.
+ */
+function convertGene(gene: string, result: GeneResult, perpetrators: Perpetrator[]): Phenoconversion {
+    const conversion: Phenoconversion = {
+        gene,
+        genotypicPhenotype: result.phenotype,
+        genotypicActivityScore: result.activityScore,
+        phenotype: result.phenotype,
+        activityScore: result.activityScore,
+        perpetrators,
+        applied: null
+    };
+    const table = PHENOTYPE_TABLES[gene];
+    const inhibitor = strongestOf(perpetrators, 'inhibitor');
+    const inducer = strongestOf(perpetrators, 'inducer');
+
+    if (inhibitor) {
+        // A strong inhibitor phenocopies a poor metabolizer whatever the genotype
+        if (inhibitor.strength === 'strong') {
+            conversion.applied = inhibitor;
+            conversion.phenotype = POOR_METABOLIZER;
+            if (table.method === 'activity-score') conversion.activityScore = 0;
+        } else if (result.phenotype !== INDETERMINATE) {
+            conversion.applied = inhibitor;
+            if (table.method === 'activity-score' && result.activityScore !== undefined) {
+                const score = result.activityScore * INHIBITOR_ACTIVITY_FACTOR[inhibitor.strength];
+                conversion.activityScore = score;
+                conversion.phenotype = table.thresholds.find(t => score <= t.maxScore)?.phenotype ?? INDETERMINATE;
+            } else {
+                conversion.phenotype = shiftPhenotype(gene, result.phenotype, -1);
+            }
+        }
+    } else if (inducer && result.phenotype !== INDETERMINATE && result.phenotype !== POOR_METABOLIZER) {
+        conversion.applied = inducer;
+        conversion.phenotype = shiftPhenotype(gene, result.phenotype, INDUCER_STEPS[inducer.strength]);
+    }
+    return conversion;
+}
+
+/**
+ * Co-medications (canonical ingredient names) acting on each modulated enzyme.
+ */
+export function findPerpetrators(medications: string[]): Record<string, Perpetrator[]> {
+    const drugs = [...new Set(medications.map(m => m.trim().toUpperCase()).filter(m => m !== ''))];
+    const found: Record<string, Perpetrator[]> = {};
+    for (const [gene, modulators] of Object.entries(ENZYME_MODULATORS)) {
+        const perpetrators = drugs.filter(d => modulators[d]).map(d => ({ drug: d, ...modulators[d] }));
+        if (perpetrators.length > 0) found[gene] = perpetrators;
+    }
+    return found;
+}
+
+/**
+ * Applies the patient's co-medications to a genotype-derived profile. Returns the
+ * profile with effective phenotypes (activity scores adjusted where applicable)
+ * and one record per gene a co-medication acts on, whether or not its phenotype
+ * changed. Genes missing from the profile count as indeterminate.
+ */
+export function phenoconvertProfile(profile: PatientProfile, medications: string[]): { profile: PatientProfile; conversions: Phenoconversion[] } {
+    const conversions = Object.entries(findPerpetrators(medications))
+        .map(([gene, perpetrators]) => convertGene(gene, profile.genes[gene] ?? { diplotype: 'Unknown', phenotype: INDETERMINATE }, perpetrators));
+    if (conversions.every(c => c.applied === null)) return { profile, conversions };
+
+    const genes = { ...profile.genes };
+    for (const conversion of conversions.filter(c => c.applied !== null)) {
+        genes[conversion.gene] = {
+            ...(genes[conversion.gene] ?? { diplotype: 'Unknown' }),
+            phenotype: conversion.phenotype,
+            activityScore: conversion.activityScore
+        };
+    }
+    return { profile: { ...profile, genes }, conversions };
+}
@@ -0,0 +1,253 @@
+/**
+ * Diplotype-to-phenotype translation following the CPIC gene tables.
+ * Genes with a CPIC activity score (CYP2D6, CYP2C9, DPYD) sum a value per allele
+ * and translate the score through thresholds; the other genes translate the pair
+ * of allele functions directly. VKORC1 is reported as warfarin sensitivity, and
+ * genes that matter by the presence of a risk allele (HLA-B, RYR1, CACNA1S) as
+ * carrier status.
+ */
+
+import { AlleleFunction, HaplotypeCall } from './starAlleles';
+
+export interface PhenotypeCall {
+    phenotype: string;
+    activityScore?: number; // Only for genes scored by CPIC activity values
+}
+
+interface ActivityScoreTable {
+    method: 'activity-score';
+    activityValues: Record<string, number>; // Per star allele, including the reference allele
+    thresholds: { maxScore: number; phenotype: string }[]; // First threshold the score does not exceed
+}
+
+interface AlleleFunctionTable {
+    method: 'allele-function';
+    diplotypes: Record<string, string>; // Keyed by functionPair()
+}
+
+interface CarrierTable {
+    method: 'carrier';
+    carrier: string; // Phenotype when either allele is a risk allele
+    nonCarrier: string;
+}
+
+type PhenotypeTable = (ActivityScoreTable | AlleleFunctionTable | CarrierTable) & {
+    phenotypes: string[]; // Every phenotype of the gene, lowest function first
+};
+
+export const INDETERMINATE = 'Indeterminate';
+
+const METABOLIZER_PHENOTYPES = ['Poor Metabolizer', 'Intermediate Metabolizer', 'Normal Metabolizer', 'Rapid Metabolizer', 'Ultrarapid Metabolizer'];
+
+// ---------------------------------------------------------
+// TRANSLATION TABLES
+// ---------------------------------------------------------
+
+function functionPair(a: AlleleFunction, b: AlleleFunction): string {
+    return [a, b].sort().join(' + ');
+}
+
+// TPMT and NUDT15 share the CPIC thiopurine translation
+const THIOPURINE_DIPLOTYPES = {
+    [functionPair('Normal function', 'Normal function')]: 'Normal Metabolizer',
+    [functionPair('Normal function', 'Decreased function')]: 'Intermediate Metabolizer',
+    [functionPair('Normal function', 'No function')]: 'Intermediate Metabolizer',
+    [functionPair('Decreased function', 'Decreased function')]: 'Intermediate Metabolizer',
+    [functionPair('Decreased function', 'No function')]: 'Poor Metabolizer',
+    [functionPair('No function', 'No function')]: 'Poor Metabolizer'
+};
+
+const MH_SUSCEPTIBILITY: CarrierTable & { phenotypes: string[] } = {
+    method: 'carrier',
+    carrier: 'Malignant Hyperthermia Susceptible',
+    // CPIC: no tested variant found does not rule susceptibility out
+    nonCarrier: 'Uncertain Susceptibility',
+    phenotypes: ['Malignant Hyperthermia Susceptible', 'Uncertain Susceptibility']
+};
+
+const HLA_CARRIER: CarrierTable & { phenotypes: string[] } = {
+    method: 'carrier',
+    carrier: 'Positive',
+    nonCarrier: 'Negative',
+    phenotypes: ['Positive', 'Negative']
+};
+
+const ACTIVITY_THRESHOLDS = [
+    { maxScore: 0.5, phenotype: 'Poor Metabolizer' },
+    { maxScore: 1.5, phenotype: 'Intermediate Metabolizer' },
+    { maxScore: Infinity, phenotype: 'Normal Metabolizer' }
+];
+
+export const PHENOTYPE_TABLES: Record<string, PhenotypeTable> = {
+    CYP2D6: {
+        method: 'activity-score',
+        activityValues: { '*1': 1, '*2': 1, '*4': 0, '*5': 0, '*10': 0.25 },
+        // CPIC 2019 consensus: AS 0 PM, 0.25-1 IM, 1.25-2.25 NM, above 2.25 UM
+        thresholds: [
+            { maxScore: 0, phenotype: 'Poor Metabolizer' },
+            { maxScore: 1, phenotype: 'Intermediate Metabolizer' },
+            { maxScore: 2.25, phenotype: 'Normal Metabolizer' },
+            { maxScore: Infinity, phenotype: 'Ultrarapid Metabolizer' }
+        ],
+        phenotypes: METABOLIZER_PHENOTYPES
+    },
+    CYP2C9: {
+        method: 'activity-score',
+        activityValues: { '*1': 1, '*2': 0.5, '*3': 0 },
+        thresholds: ACTIVITY_THRESHOLDS,
+        phenotypes: METABOLIZER_PHENOTYPES
+    },
+    DPYD: {
+        method: 'activity-score',
+        activityValues: { '*1': 1, '*2A': 0, 'c.2846A>T': 0.5, 'HapB3': 0.5 },
+        thresholds: ACTIVITY_THRESHOLDS,
+        phenotypes: METABOLIZER_PHENOTYPES
+    },
+    CYP2C19: {
+        method: 'allele-function',
+        diplotypes: {
+            [functionPair('Increased function', 'Increased function')]: 'Ultrarapid Metabolizer',
+            [functionPair('Normal function', 'Increased function')]: 'Rapid Metabolizer',
+            [functionPair('Normal function', 'Normal function')]: 'Normal Metabolizer',
+            [functionPair('Normal function', 'Decreased function')]: 'Intermediate Metabolizer',
+            [functionPair('Normal function', 'No function')]: 'Intermediate Metabolizer',
+            [functionPair('Increased function', 'Decreased function')]: 'Intermediate Metabolizer',
+            [functionPair('Increased function', 'No function')]: 'Intermediate Metabolizer',
+            [functionPair('Decreased function', 'Decreased function')]: 'Poor Metabolizer',
+            [functionPair('Decreased function', 'No function')]: 'Poor Metabolizer',
+            [functionPair('No function', 'No function')]: 'Poor Metabolizer'
+        },
+        phenotypes: METABOLIZER_PHENOTYPES
+    },
+    TPMT: {
+        method: 'allele-function',
+        diplotypes: THIOPURINE_DIPLOTYPES,
+        phenotypes: METABOLIZER_PHENOTYPES
+    },
+    NUDT15: {
+        method: 'allele-function',
+        diplotypes: THIOPURINE_DIPLOTYPES,
+        phenotypes: METABOLIZER_PHENOTYPES
+    },
+    SLCO1B1: {
+        method: 'allele-function',
+        diplotypes: {
+            [functionPair('Normal function', 'Normal function')]: 'Normal Function',
+            [functionPair('Normal function', 'Decreased function')]: 'Decreased Function',
+            [functionPair('Normal function', 'No function')]: 'Decreased Function',
+            [functionPair('Decreased function', 'Decreased function')]: 'Poor Function',
+            [functionPair('Decreased function', 'No function')]: 'Poor Function',
+            [functionPair('No function', 'No function')]: 'Poor Function'
+        },
+        phenotypes: ['Poor Function', 'Decreased Function', 'Normal Function']
+    },
+    VKORC1: {
+        method: 'allele-function',
+        // -1639 G/G, G/A and A/A; lower expression means a lower warfarin dose requirement
+        diplotypes: {
+            [functionPair('Normal function', 'Normal function')]: 'Normal Warfarin Sensitivity',
+            [functionPair('Normal function', 'Decreased function')]: 'Increased Warfarin Sensitivity',
+            [functionPair('Decreased function', 'Decreased function')]: 'High Warfarin Sensitivity'
+        },
+        phenotypes: ['High Warfarin Sensitivity', 'Increased Warfarin Sensitivity', 'Normal Warfarin Sensitivity']
+    },
+    CYP4F2: {
+        method: 'allele-function',
+        diplotypes: {
+            [functionPair('Normal function', 'Normal function')]: 'Normal Metabolizer',
+            [functionPair('Normal function', 'Decreased function')]: 'Intermediate Metabolizer',
+            [functionPair('Decreased function', 'Decreased function')]: 'Poor Metabolizer'
+        },
+        phenotypes: METABOLIZER_PHENOTYPES
+    },
+    UGT1A1: {
+        method: 'allele-function',
+        diplotypes: {
+            [functionPair('Normal function', 'Normal function')]: 'Normal Metabolizer',
+            [functionPair('Normal function', 'Decreased function')]: 'Intermediate Metabolizer',
+            [functionPair('Decreased function', 'Decreased function')]: 'Poor Metabolizer'
+        },
+        phenotypes: METABOLIZER_PHENOTYPES
+    },
+    CYP3A5: {
+        method: 'allele-function',
+        // *1 expresses the enzyme; *3/*3 (most Europeans) is a non-expresser
+        diplotypes: {
+            [functionPair('Normal function', 'Normal function')]: 'Normal Metabolizer',
+            [functionPair('Normal function', 'No function')]: 'Intermediate Metabolizer',
+            [functionPair('No function', 'No function')]: 'Poor Metabolizer'
+        },
+        phenotypes: METABOLIZER_PHENOTYPES
+    },
+    G6PD: {
+        method: 'allele-function',
+        // Diploid calls; a hemizygous (male) call is translated as the allele paired with itself.
+        // A heterozygous female's activity depends on X inactivation
+        diplotypes: {
+            [functionPair('Normal function', 'Normal function')]: 'Normal',
+            [functionPair('Normal function', 'Decreased function')]: 'Variable',
+            [functionPair('Normal function', 'No function')]: 'Variable',
+            [functionPair('Decreased function', 'Decreased function')]: 'Deficient',
+            [functionPair('Decreased function', 'No function')]: 'Deficient',
+            [functionPair('No function', 'No function')]: 'Deficient'
+        },
+        phenotypes: ['Deficient', 'Variable', 'Normal']
+    },
+    RYR1: MH_SUSCEPTIBILITY,
+    CACNA1S: MH_SUSCEPTIBILITY,
+    'HLA-B*57:01': HLA_CARRIER,
+    'HLA-B*58:01': HLA_CARRIER,
+    'HLA-B*15:02': HLA_CARRIER
+};
+
+// ---------------------------------------------------------
+// TRANSLATION
+// ---------------------------------------------------------
+
+/**
+ * CPIC activity value of one allele, or undefined when the gene is not scored
+ * by activity or the allele has no assigned value.
+ */
+export function alleleActivityValue(gene: string, allele: string): number | undefined {
+    const table = PHENOTYPE_TABLES[gene];
+    return table?.method === 'activity-score' ? table.activityValues[allele] : undefined;
+}
+
+/**
+ * Translates a called diplotype into the gene's phenotype (and activity score,
+ * where CPIC defines one). A duplicated allele contributes its activity value once
+ * per copy. Carrier genes are positive when either allele is a risk allele. Alleles of uncertain function or without an assigned activity value
+ * make the phenotype indeterminate.
+ */
+export function translatePhenotype(gene: string, alleles: [HaplotypeCall, HaplotypeCall]): PhenotypeCall {
+    const table = PHENOTYPE_TABLES[gene];
+    if (!table) return { phenotype: INDETERMINATE };
+
+    // A risk allele decides carrier status even when the other allele is uncertain
+    if (table.method === 'carrier') {
+        if (alleles.some(a => a.function === 'Risk allele')) return { phenotype: table.carrier };
+        return { phenotype: alleles.some(a => a.function === 'Uncertain function') ? INDETERMINATE : table.nonCarrier };
+    }
+
+    if (alleles.some(a => a.function === 'Uncertain function')) return { phenotype: INDETERMINATE };
+
+    if (table.method === 'allele-function') {
+        return { phenotype: table.diplotypes[functionPair(alleles[0].function, alleles[1].function)] ?? INDETERMINATE };
+    }
+
+    const values = alleles.map(a => table.activityValues[a.name]);
+    if (values.some(v => v === undefined)) return { phenotype: INDETERMINATE };
+
+    const activityScore = values.reduce((sum, v, i) => sum + v * alleles[i].copies, 0);
+    const phenotype = table.thresholds.find(t => activityScore <= t.maxScore)?.phenotype ?? INDETERMINATE;
+    return { phenotype, activityScore };
+}
+
+/**
+ * Orders phenotypes from lowest to highest function within a gene, for choosing
+ * the most cautious of several possible calls. Indeterminate ranks last.
+ */
+export function phenotypeRank(gene: string, phenotype: string): number {
+    const rank = PHENOTYPE_TABLES[gene]?.phenotypes.indexOf(phenotype) ?? -1;
+    return rank < 0 ? Infinity : rank;
+}
@@ -0,0 +1,271 @@
+/**
+ * Parsers for direct-to-consumer genotyping exports (23andMe, AncestryDNA).
+ * Rows are converted to the same VCFVariant shape the VCF parser produces.
+ * Edge compatible (no fs/node dependencies).
+ */
+
+import {
+    VCFVariant,
+    VCFParseOptions,
+    ParsedVCF,
+    GenotypeCall,
+    GenotypeFileFormat,
+    GenomeBuild,
+    GenomeBuildSource,
+    normalizeChromosome,
+    formatGenotype,
+    readLines,
+    parseVCFLines
+} from './vcfParser';
+import { VCFHeader } from './vcfHeader';
+import { createValidationCollector } from './vcfValidation';
+
+export interface GenotypeParseOptions extends VCFParseOptions {
+    /**
+     * Forward-strand REF/ALT for a row. Array exports only list the observed bases,
+     * so rows without a known reference cannot be expressed as a VCFVariant and are skipped.
+     */
+    resolveAlleles?: (chrom: string, pos: number, id: string) => { ref: string; alt: string } | null;
+}
+
+const RAW_COLUMNS: Record<Exclude<GenotypeFileFormat, 'vcf'>, string[]> = {
+    '23andme': ['rsid', 'chromosome', 'position', 'genotype'],
+    ancestrydna: ['rsid', 'chromosome', 'position', 'allele1', 'allele2']
+};
+
+// AncestryDNA numbers the sex chromosomes, the pseudo-autosomal region and mtDNA
+const ANCESTRY_CHROMOSOMES: Record<string, string> = { '23': 'X', '24': 'Y', '25': 'X', '26': 'MT' };
+
+const COMPLEMENT: Record<string, string> = { A: 'T', T: 'A', C: 'G', G: 'C' };
+
+const NO_CALL = new Set(['-', '0', '']);
+
+/**
+ * Identifies the file format from its leading lines (up to and including the
+ * first data row). Returns null when the content is not recognised.
+ */
+export function detectGenotypeFormat(lines: string[]): GenotypeFileFormat | null {
+    const content = lines.map(line => line.replace(/\r$/, '')).filter(line => line.trim());
+    if (content.length === 0) return null;
+    if (content[0].startsWith('##fileformat=VCF')) return 'vcf';
+
+    const comments = content.filter(line => line.startsWith('#'));
+    if (comments.some(line => line.startsWith('#CHROM'))) return 'vcf';
+    if (comments.some(line => /23andMe/i.test(line))) return '23andme';
+    if (comments.some(line => /AncestryDNA/i.test(line))) return 'ancestrydna';
+
+    // Unbranded exports: fall back to the column layout
+    const firstRow = content.find(line => !line.startsWith('#'));
+    if (!firstRow) return null;
+    const columns = firstRow.toLowerCase().split('\t');
+    if (columns.join('\t') === RAW_COLUMNS.ancestrydna.join('\t')) return 'ancestrydna';
+    if (/^(rs|i)\d+$/.test(columns[0]) && /^\d+$/.test(columns[2] ?? '')) {
+        if (columns.length === 4) return '23andme';
+        if (columns.length === 5) return 'ancestrydna';
+    }
+    return null;
+}
+
+/**
+ * Both vendors state the reference build in the comment header
+ * (e.g. "reference human assembly build 37").
+ */
+function detectRawBuild(comments: string[]): GenomeBuild | null {
+    for (const line of comments) {
+        const stated = /\b(?:build\s*|GRCh)(37|38)\b/i.exec(line);
+        if (stated) return stated[1] === '37' ? 'GRCh37' : 'GRCh38';
+    }
+    return null;
+}
+
+/**
+ * Orients the observed bases against the forward-strand REF/ALT.
+ * Returns allele indices (0 = REF, 1 = ALT), or null when the bases fit neither
+ * strand. Calls that only fit the reverse strand are complemented, which is
+ * impossible to detect for palindromic (A/T, C/G) sites; those are taken as reported.
+ */
+function orientAlleles(bases: string[], ref: string, alt: string): { alleles: number[]; flipped: boolean } | null {
+    const index = (base: string) => (base === ref ? 0 : base === alt ? 1 : -1);
+
+    const forward = bases.map(index);
+    if (forward.every(i => i >= 0)) return { alleles: forward, flipped: false };
+
+    const reverse = bases.map(base => index(COMPLEMENT[base] ?? base));
+    if (reverse.every(i => i >= 0)) return { alleles: reverse, flipped: true };
+
+    return null;
+}
+
+/**
+ * Parses the rows of a 23andMe or AncestryDNA export. Each row yields a
+ * single-sample, GT-only VCFVariant oriented by `options.resolveAlleles`.
+ */
+export async function parseRawGenotypeLines(
+    format: Exclude<GenotypeFileFormat, 'vcf'>,
+    lines: AsyncIterable<string>,
+    options: GenotypeParseOptions = {}
+): Promise<ParsedVCF> {
+    const expectedColumns = RAW_COLUMNS[format].length;
+    const collector = createValidationCollector();
+    const headerLines: string[] = [];
+    const variants: VCFVariant[] = [];
+    let columnsLine: number | null = null;
+    let lineNumber = 0;
+    let recordCount = 0;
+
+    for await (const rawLine of lines) {
+        lineNumber++;
+        // Only the line ending is stripped: a trailing tab still delimits an empty last column
+        const line = rawLine.replace(/\r$/, '');
+        if (!line.trim()) continue;
+
+        if (line.startsWith('#')) {
+            headerLines.push(line);
+            continue;
+        }
+
+        const fields = line.split('\t').map(field => field.trim());
+
+        // AncestryDNA's column header is not commented out
+        if (fields[0].toLowerCase() === 'rsid') {
+            columnsLine = lineNumber;
+            continue;
+        }
+
+        recordCount++;
+
+        if (fields.length !== expectedColumns) {
+            collector.skipRecord('COLUMN_COUNT_MISMATCH', lineNumber, `Row has ${fields.length} columns; ${format === '23andme' ? '23andMe' : 'AncestryDNA'} rows have ${expectedColumns}.`);
+            continue;
+        }
+
+        const [id, rawChrom, posStr] = fields;
+        if (!/^[1-9]\d*$/.test(posStr)) {
+            collector.skipRecord('INVALID_POS', lineNumber, `Position "${posStr}" is not a positive integer.`);
+            continue;
+        }
+
+        const chrom = normalizeChromosome(format === 'ancestrydna' ? ANCESTRY_CHROMOSOMES[rawChrom] ?? rawChrom : rawChrom);
+        const pos = parseInt(posStr, 10);
+        if (options.includeRecord && !options.includeRecord(chrom, pos, id)) continue;
+
+        const reference = options.resolveAlleles?.(chrom, pos, id);
+        if (!reference) continue;
+
+        // 23andMe writes both bases in one column ('AG', 'A' on haploid loci, '--' for no-calls);
+        // an empty genotype column is a no-call too
+        const bases = (format === '23andme' ? (fields[3] || '--').split('') : fields.slice(3)).map(base => base.toUpperCase());
+
+        let alleles: (number | null)[];
+        if (bases.some(base => NO_CALL.has(base))) {
+            alleles = bases.map(() => null);
+        } else if (bases.some(base => base === 'I' || base === 'D')) {
+            collector.addIssue('warning', 'UNRESOLVED_INDEL', lineNumber, `${id} is reported as insertion/deletion calls (${bases.join('')}), which cannot be aligned to the reference alleles; treated as a no-call.`);
+            alleles = bases.map(() => null);
+        } else {
+            const oriented = orientAlleles(bases, reference.ref, reference.alt);
+            if (!oriented) {
+                collector.addIssue('warning', 'ALLELE_MISMATCH', lineNumber, `${id} genotype ${bases.join('')} matches neither ${reference.ref}/${reference.alt} nor its complement; treated as a no-call.`);
+                alleles = bases.map(() => null);
+            } else {
+                if (oriented.flipped) {
+                    collector.addIssue('warning', 'STRAND_FLIPPED', lineNumber, `${id} genotype ${bases.join('')} is reported on the reverse strand and was complemented.`);
+                }
+                alleles = oriented.alleles;
+            }
+        }
+
+        const call: GenotypeCall = {
+            alleles,
+            ploidy: alleles.length,
+            phased: false, // Array genotypes are unphased
+            phaseSet: null,
+            depth: null,
+            genotypeQuality: null,
+            alleleDepths: null,
+            sampleFilter: null,
+            copyNumber: null
+        };
+
+        variants.push({
+            chrom,
+            pos,
+            id,
+            ref: reference.ref,
+            alt: reference.alt,
+            alts: [reference.alt],
+            end: pos,
+            referenceBlock: false,
+            qual: '.',
+            filter: '.',
+            info: {},
+            format: 'GT',
+            sampleData: [formatGenotype(call)],
+            genotypes: [call]
+        });
+    }
+
+    // Without a stated build both GRCh37 and GRCh38 target positions are tried
+    const statedBuild = detectRawBuild(headerLines);
+    const build = options.build ?? statedBuild;
+    const buildSource: GenomeBuildSource = options.build ? 'override' : statedBuild ? 'header' : 'undetermined';
+
+    const header: VCFHeader = {
+        fileFormat: null,
+        info: {},
+        format: {},
+        filter: {},
+        contigs: [],
+        meta: {},
+        columns: RAW_COLUMNS[format],
+        columnsLine,
+        samples: [],
+        malformed: []
+    };
+
+    return {
+        format,
+        headerLines,
+        header,
+        samples: [],
+        build,
+        buildSource,
+        variants,
+        recordCount,
+        validation: collector.finish()
+    };
+}
+
+async function* prependLines(buffered: string[], rest: AsyncIterator<string>): AsyncGenerator<string> {
+    yield* buffered;
+    while (true) {
+        const next = await rest.next();
+        if (next.done) return;
+        yield next.value;
+    }
+}
+
+/**
+ * Parses a VCF or consumer raw-data stream, detecting the format from the
+ * leading lines. Unrecognised content is handed to the VCF parser so that its
+ * validation report explains what is missing.
+ */
+export async function parseGenotypeStream(stream: ReadableStream<Uint8Array>, options: GenotypeParseOptions = {}): Promise<ParsedVCF> {
+    const lines = readLines(stream);
+    const buffered: string[] = [];
+
+    // Buffer the comment header and the first data row, which is all detection needs
+    while (true) {
+        const next = await lines.next();
+        if (next.done) break;
+        buffered.push(next.value);
+        const line = next.value.trim();
+        if (line.startsWith('##fileformat=VCF') || (line && !line.startsWith('#'))) break;
+    }
+
+    const format = detectGenotypeFormat(buffered) ?? 'vcf';
+    const allLines = prependLines(buffered, lines);
+    return format === 'vcf'
+        ? parseVCFLines(allLines, options)
+        : parseRawGenotypeLines(format, allLines, options);
+}
@@ -0,0 +1,191 @@
+/**
+ * Knowledge-base change impact: re-runs the profile saved in an issued report
+ * against the current guideline rules and diffs each drug's risk, recommendation
+ * and evidence, so a guideline revision shows which reports would now read
+ * differently. The saved genotype calls are reused as issued; only the drug rules,
+ * phenoconversion and context rules are re-applied.
+ */
+
+import { PatientProfile, evaluateDrugRisk } from './pgxRulesBase';
+import { KnowledgeBase, KNOWLEDGE_BASE, PatientSex } from './knowledgeBase';
+import { PatientContext } from './patientContext';
+import { phenoconvertProfile } from './phenoconversion';
+
+// One drug's call as a report states it; null where the report predates the field
+export interface ReportedCall {
+    risk: string;
+    recommendation: string | null;
+    evidence: string | null;
+}
+
+export type ReportedField = 'risk' | 'recommendation' | 'evidence';
+
+export interface DrugImpact {
+    drug: string;
+    changed: ReportedField[]; // Empty when the current rules reproduce the report
+    actionable: boolean; // The risk changed, or the recommendation of a non-Safe result changed
+    previous: ReportedCall;
+    current: ReportedCall;
+}
+
+export interface SampleImpact {
+    sampleId: string | null;
+    patientId: string | null;
+    drugs: DrugImpact[];
+    actionableChanges: number;
+}
+
+export interface ReportImpact {
+    previousVersion: string | null; // Knowledge base version the report was issued under
+    currentVersion: string;
+    samples: SampleImpact[];
+    notes: string[]; // Inputs the report did not save and the re-run could not reproduce
+}
+
+interface SavedResult {
+    drug: string;
+    patientId: string | null;
+    call: ReportedCall;
+    perpetrators: string[]; // Co-medications the report lists as acting on the drug's enzymes
+}
+
+interface SavedSample {
+    sampleId: string | null;
+    profile: PatientProfile;
+    results: SavedResult[];
+}
+
+// A downloaded /api/analyze response, reduced to the fields the re-run needs
+export interface SavedReport {
+    knowledgeBaseVersion: string | null;
+    samples: SavedSample[];
+    context: PatientContext | null; // null for reports saved before the context was echoed
+    medications: string[] | null; // null for reports saved before the medications were echoed
+}
+
+// ---------------------------------------------------------
+// READING SAVED REPORTS
+// ---------------------------------------------------------
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function optionalString(value: unknown): string | null {
+    return typeof value === 'string' ? value : null;
+}
+
+function readResult(value: unknown, path: string): SavedResult | string {
+    if (!isRecord(value) || typeof value.drug !== 'string') return `${path}.drug: must be a string.`;
+    const risk = isRecord(value.risk_assessment) ? value.risk_assessment : {};
+    if (typeof risk.risk_label !== 'string') return `${path}.risk_assessment.risk_label: must be a string.`;
+    const recommendation = isRecord(value.clinical_recommendation) ? value.clinical_recommendation : {};
+    const profile = isRecord(value.pharmacogenomic_profile) ? value.pharmacogenomic_profile : {};
+    const conversions = Array.isArray(profile.phenoconversion) ? profile.phenoconversion : [];
+    return {
+        drug: value.drug,
+        patientId: optionalString(value.patient_id),
+        call: {
+            risk: risk.risk_label,
+            recommendation: optionalString(recommendation.guideline_recommendation),
+            evidence: optionalString(risk.evidence_strength)
+        },
+        perpetrators: conversions.flatMap(c => isRecord(c) && Array.isArray(c.perpetrators) ? c.perpetrators : [])
+            .flatMap(p => isRecord(p) && typeof p.drug === 'string' ? [p.drug] : [])
+    };
+}
+
+function readSample(value: unknown, path: string): SavedSample | string {
+    if (!isRecord(value)) return `${path}: must be an object.`;
+    if (!isRecord(value.profile) || !isRecord(value.profile.genes)) return `${path}.profile: the report has no saved profile to re-run.`;
+    if (!Array.isArray(value.results)) return `${path}.results: must be an array.`;
+    const results: SavedResult[] = [];
+    for (const [i, result] of value.results.entries()) {
+        const read = readResult(result, `${path}.results[${i}]`);
+        if (typeof read === 'string') return read;
+        results.push(read);
+    }
+    return { sampleId: optionalString(value.sample_id), profile: value.profile as unknown as PatientProfile, results };
+}
+
+function readContext(value: unknown): PatientContext | null {
+    if (!isRecord(value)) return null;
+    const number = (v: unknown) => typeof v === 'number' ? v : undefined;
+    const flag = (v: unknown) => typeof v === 'boolean' ? v : undefined;
+    return {
+        ageYears: number(value.age_years),
+        sex: value.sex === 'female' || value.sex === 'male' ? value.sex as PatientSex : undefined,
+        weightKg: number(value.weight_kg),
+        pregnant: flag(value.pregnant),
+        lactating: flag(value.lactating),
+        egfr: number(value.egfr)
+    };
+}
+
+/**
+ * Reads a saved report (the JSON downloaded from the dashboard, or an /api/analyze
+ * response). Returns the report, or a message naming the first unusable field.
+ */
+export function readSavedReport(data: unknown): SavedReport | string {
+    if (!isRecord(data)) return 'Report must be a JSON object.';
+    if (!Array.isArray(data.samples) || data.samples.length === 0) return 'samples: the report has no saved samples to re-run.';
+    const samples: SavedSample[] = [];
+    for (const [i, sample] of data.samples.entries()) {
+        const read = readSample(sample, `samples[${i}]`);
+        if (typeof read === 'string') return read;
+        samples.push(read);
+    }
+    return {
+        knowledgeBaseVersion: isRecord(data.knowledge_base) ? optionalString(data.knowledge_base.version) : null,
+        samples,
+        context: readContext(data.patient_context),
+        medications: Array.isArray(data.medications) ? data.medications.filter((m): m is string => typeof m === 'string') : null
+    };
+}
+
+// ---------------------------------------------------------
+// IMPACT
+// ---------------------------------------------------------
+
+function diffCall(drug: string, previous: ReportedCall, current: ReportedCall): DrugImpact {
+    // Fields the report did not save cannot be compared
+    const changed = (['risk', 'recommendation', 'evidence'] as ReportedField[])
+        .filter(field => previous[field] !== null && previous[field] !== current[field]);
+    const actionable = changed.includes('risk') || (changed.includes('recommendation') && (previous.risk !== 'Safe' || current.risk !== 'Safe'));
+    return { drug, changed, actionable, previous, current };
+}
+
+/**
+ * Re-evaluates every drug of every sample in the report against the given
+ * knowledge base and diffs the result with what the report states.
+ */
+export function assessReportImpact(report: SavedReport, knowledgeBase: KnowledgeBase = KNOWLEDGE_BASE): ReportImpact {
+    const notes: string[] = [];
+    if (report.context === null) notes.push('The report does not record the patient context; context rules were not re-applied.');
+    if (report.medications === null) notes.push('The report does not record the medication list; phenoconversion uses the co-medications its results name.');
+
+    const samples = report.samples.map(sample => {
+        const medications = report.medications ?? [...new Set(sample.results.flatMap(r => r.perpetrators))];
+        const drugs = sample.results.map(result => {
+            // Same order as the analysis: a drug does not phenoconvert its own metabolism
+            const { profile } = phenoconvertProfile(sample.profile, medications.filter(m => m !== result.drug));
+            const assessment = evaluateDrugRisk(result.drug, profile, report.context ?? {}, knowledgeBase);
+            return diffCall(result.drug, result.call, {
+                risk: assessment.risk,
+                recommendation: assessment.recommendation,
+                evidence: assessment.evidenceStrength
+            });
+        });
+        return {
+            sampleId: sample.sampleId,
+            patientId: sample.results.find(r => r.patientId !== null)?.patientId ?? null,
+            drugs,
+            actionableChanges: drugs.filter(d => d.actionable).length
+        };
+    });
+
+    if (samples.some(s => s.drugs.some(d => d.previous.recommendation === null))) {
+        notes.push('The report predates guideline_recommendation; recommendations were not compared.');
+    }
+    return { previousVersion: report.knowledgeBaseVersion, currentVersion: knowledgeBase.version, samples, notes };
+}
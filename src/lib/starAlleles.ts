@@ -0,0 +1,185 @@
+/**
+ * Star-allele definition tables for the targeted pharmacogenes.
+ * Each allele is defined by the core tested variants (rsIDs, see TARGET_VARIANTS
+ * in pgxRulesBase.ts) it carries on one chromosome, plus variants its common
+ * sub-alleles may also carry. A haplotype carrying none of them is the gene's
+ * reference allele (*1, or the entry in REFERENCE_ALLELES for genes without
+ * star-allele nomenclature or whose reference genome carries a variant allele).
+ * Definitions are listed most specific first.
+ * Whole-gene deletions and duplications are called from copy number instead.
+ * Functional status follows the CPIC allele functionality tables.
+ */
+
+// 'Risk allele' marks alleles that matter by presence rather than enzyme activity
+// (HLA-B risk alleles, malignant hyperthermia susceptibility variants)
+export type AlleleFunction = 'Normal function' | 'Increased function' | 'Decreased function' | 'No function' | 'Uncertain function' | 'Risk allele';
+
+export interface StarAlleleDefinition {
+    name: string;
+    variants: string[]; // Core rsIDs: all must be on the haplotype
+    optional?: string[]; // rsIDs that may also be present without changing the allele
+    function: AlleleFunction;
+}
+
+export interface HaplotypeCall {
+    name: string;
+    function: AlleleFunction;
+    exact: boolean; // The haplotype's variants match a definition exactly
+    unexplained: string[]; // Variants on the haplotype not covered by the named allele
+    copies: number; // Gene copies of this allele on the chromosome (2+ for duplications)
+}
+
+export const REFERENCE_ALLELE = '*1';
+
+// Reference alleles other than a normal-function *1
+export const REFERENCE_ALLELES: Record<string, { name: string; function: AlleleFunction }> = {
+    VKORC1: { name: '-1639G', function: 'Normal function' },
+    CYP3A5: { name: '*3', function: 'No function' }, // GRCh37/38 carry the non-expressing *3 allele
+    G6PD: { name: 'B', function: 'Normal function' },
+    RYR1: { name: 'Reference', function: 'Normal function' },
+    CACNA1S: { name: 'Reference', function: 'Normal function' },
+    'HLA-B*57:01': { name: 'non-*57:01', function: 'Normal function' },
+    'HLA-B*58:01': { name: 'non-*58:01', function: 'Normal function' }
+};
+
+// ---------------------------------------------------------
+// ALLELE DEFINITIONS
+// ---------------------------------------------------------
+
+export const STAR_ALLELES: Record<string, StarAlleleDefinition[]> = {
+    CYP2D6: [
+        // 1846G>A (rs3892097) defines *4; its sub-alleles also carry 100C>T and 4180G>C
+        { name: '*4', variants: ['rs3892097'], optional: ['rs1065852', 'rs1135840', 'rs16947'], function: 'No function' },
+        { name: '*10', variants: ['rs1065852', 'rs1135840'], function: 'Decreased function' },
+        { name: '*2', variants: ['rs16947', 'rs1135840'], function: 'Normal function' }
+    ],
+    CYP2C9: [
+        { name: '*2', variants: ['rs1799853'], function: 'Decreased function' },
+        { name: '*3', variants: ['rs1057910'], function: 'No function' }
+    ],
+    CYP2C19: [
+        { name: '*2', variants: ['rs4244285'], function: 'No function' },
+        { name: '*3', variants: ['rs4986893'], function: 'No function' },
+        { name: '*17', variants: ['rs12248560'], function: 'Increased function' }
+    ],
+    SLCO1B1: [
+        { name: '*15', variants: ['rs4149056', 'rs2306283'], function: 'No function' },
+        { name: '*5', variants: ['rs4149056'], function: 'No function' },
+        { name: '*37', variants: ['rs2306283'], function: 'Normal function' } // Formerly *1B
+    ],
+    TPMT: [
+        { name: '*2', variants: ['rs1800462'], function: 'No function' },
+        { name: '*3A', variants: ['rs1800460', 'rs1142345'], function: 'No function' },
+        { name: '*3B', variants: ['rs1800460'], function: 'No function' },
+        { name: '*3C', variants: ['rs1142345'], function: 'No function' }
+    ],
+    DPYD: [
+        { name: '*2A', variants: ['rs3918290'], function: 'No function' },
+        { name: 'c.2846A>T', variants: ['rs67376798'], function: 'Decreased function' },
+        { name: 'HapB3', variants: ['rs75017182'], function: 'Decreased function' }
+    ],
+    VKORC1: [
+        // -1639G>A lowers VKORC1 expression, increasing warfarin sensitivity
+        { name: '-1639A', variants: ['rs9923231'], function: 'Decreased function' }
+    ],
+    CYP4F2: [
+        // V433M reduces vitamin K1 oxidation, raising warfarin dose requirements
+        { name: '*3', variants: ['rs2108622'], function: 'Decreased function' }
+    ],
+    NUDT15: [
+        { name: '*3', variants: ['rs116855232'], function: 'No function' }
+    ],
+    UGT1A1: [
+        { name: '*28', variants: ['rs3064744'], function: 'Decreased function' }, // (TA)7 promoter repeat
+        { name: '*6', variants: ['rs4148323'], function: 'Decreased function' }
+    ],
+    CYP3A5: [
+        // 6986A>G (rs776746) splice defect: the tested allele restores expression
+        { name: '*1', variants: ['rs776746'], function: 'Normal function' }
+    ],
+    G6PD: [
+        { name: 'A-', variants: ['rs1050828'], function: 'Decreased function' }, // 202G>A, WHO class III
+        { name: 'Mediterranean', variants: ['rs5030868'], function: 'No function' } // 563C>T, WHO class II
+    ],
+    RYR1: [
+        { name: 'c.487C>T', variants: ['rs118192161'], function: 'Risk allele' },
+        { name: 'c.1021G>A', variants: ['rs121918592'], function: 'Risk allele' },
+        { name: 'c.1840C>T', variants: ['rs118192172'], function: 'Risk allele' },
+        { name: 'c.7300G>A', variants: ['rs121918593'], function: 'Risk allele' }
+    ],
+    CACNA1S: [
+        { name: 'c.520C>T', variants: ['rs772226819'], function: 'Risk allele' },
+        { name: 'c.3257G>A', variants: ['rs1800559'], function: 'Risk allele' }
+    ],
+    // HLA-B risk alleles are typed directly when available (see hla.ts); otherwise
+    // inferred from tag SNPs in linkage disequilibrium with them
+    'HLA-B*57:01': [
+        { name: '*57:01', variants: ['rs2395029'], function: 'Risk allele' } // HCP5
+    ],
+    'HLA-B*58:01': [
+        { name: '*58:01', variants: ['rs9263726'], function: 'Risk allele' } // PSORS1C1
+    ]
+};
+
+// Whole-gene deletion alleles, called when the gene's copy number drops below two
+export const DELETION_ALLELES: Record<string, StarAlleleDefinition> = {
+    CYP2D6: { name: '*5', variants: [], function: 'No function' }
+};
+
+/**
+ * The gene's reference allele: a normal-function `*1` unless listed in REFERENCE_ALLELES.
+ */
+export function referenceAllele(gene: string): { name: string; function: AlleleFunction } {
+    return REFERENCE_ALLELES[gene] ?? { name: REFERENCE_ALLELE, function: 'Normal function' };
+}
+
+/**
+ * Names the haplotype carrying `variants` in `gene`: the first definition whose
+ * core variants are all present. The call is exact when every variant on the
+ * haplotype belongs to that allele; others are reported as unexplained.
+ * A combination no definition fits is named '*?' with uncertain function.
+ */
+export function nameHaplotype(gene: string, variants: string[]): HaplotypeCall {
+    if (variants.length === 0) {
+        return { ...referenceAllele(gene), exact: true, unexplained: [], copies: 1 };
+    }
+
+    const definition = (STAR_ALLELES[gene] ?? []).find(d => d.variants.every(v => variants.includes(v)));
+    if (!definition) {
+        return { name: '*?', function: 'Uncertain function', exact: false, unexplained: [...variants], copies: 1 };
+    }
+
+    const explained = [...definition.variants, ...(definition.optional ?? [])];
+    const unexplained = variants.filter(v => !explained.includes(v));
+    return { name: definition.name, function: definition.function, exact: unexplained.length === 0, unexplained, copies: 1 };
+}
+
+/**
+ * Function of the most specific allele a variant defines (first listed definition
+ * with the rsID among its core variants), or null when no definition uses it.
+ */
+export function variantFunction(gene: string, rsid: string): AlleleFunction | null {
+    return (STAR_ALLELES[gene] ?? []).find(d => d.variants.includes(rsid))?.function ?? null;
+}
+
+/**
+ * The gene's whole-gene deletion allele (CYP2D6*5), or null when none is defined.
+ */
+export function deletionAllele(gene: string): HaplotypeCall | null {
+    const definition = DELETION_ALLELES[gene];
+    return definition ? { name: definition.name, function: definition.function, exact: true, unexplained: [], copies: 1 } : null;
+}
+
+/**
+ * Allele name with its copy count in star-allele notation (`*1x2` for a duplication).
+ */
+export function alleleLabel(call: HaplotypeCall): string {
+    return call.copies > 1 ? `${call.name}x${call.copies}` : call.name;
+}
+
+/**
+ * Formats two haplotype names as a diplotype in conventional order (`*1/*17`, `*2A/HapB3`).
+ */
+export function formatDiplotype(first: string, second: string): string {
+    return [first, second].sort((a, b) => a.localeCompare(b, 'en', { numeric: true })).join('/');
+}
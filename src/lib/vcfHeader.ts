@@ -0,0 +1,155 @@
+/**
+ * Structured model of the VCF meta-information (`##`) and column header lines.
+ * Edge compatible (no fs/node dependencies).
+ */
+
+export interface HeaderDefinition {
+    id: string;
+    number?: string;
+    type?: string;
+    description?: string;
+    line: number;
+}
+
+export interface ContigDefinition {
+    id: string;
+    length?: number;
+    assembly?: string;
+    line: number;
+}
+
+export interface MalformedHeaderLine {
+    line: number;
+    text: string;
+    reason: string;
+}
+
+export interface VCFHeader {
+    fileFormat: string | null; // e.g. 'VCFv4.2'
+    info: Record<string, HeaderDefinition>;
+    format: Record<string, HeaderDefinition>;
+    filter: Record<string, HeaderDefinition>;
+    contigs: ContigDefinition[];
+    meta: Record<string, string[]>; // Any other ##key=value lines (reference, source, ...)
+    columns: string[]; // Column names from the #CHROM line (empty when missing)
+    columnsLine: number | null;
+    samples: string[];
+    malformed: MalformedHeaderLine[];
+}
+
+const STRUCTURED_KEYS = ['INFO', 'FORMAT', 'FILTER', 'contig'];
+
+/**
+ * Splits the body of a structured meta line (`<ID=DP,Number=1,Description="a, b">`)
+ * into key/value pairs, honouring quoted values that contain commas.
+ */
+function parseStructuredValue(body: string): Record<string, string> | null {
+    if (!body.startsWith('<') || !body.endsWith('>')) return null;
+
+    const fields: Record<string, string> = {};
+    const inner = body.slice(1, -1);
+    let key = '';
+    let value = '';
+    let readingKey = true;
+    let quoted = false;
+
+    for (let i = 0; i <= inner.length; i++) {
+        const ch = inner[i];
+        if (i === inner.length || (ch === ',' && !quoted)) {
+            if (key) fields[key.trim()] = value;
+            key = '';
+            value = '';
+            readingKey = true;
+        } else if (readingKey && ch === '=') {
+            readingKey = false;
+        } else if (readingKey) {
+            key += ch;
+        } else if (ch === '"' && inner[i - 1] !== '\\') {
+            quoted = !quoted;
+        } else {
+            value += ch;
+        }
+    }
+
+    return quoted ? null : fields;
+}
+
+/**
+ * Builds the header model from the `#`-prefixed lines of a VCF.
+ * `lineNumbers` gives the 1-based file line of each header line; when omitted
+ * the header is assumed to start on line 1 without blank lines.
+ */
+export function parseVCFHeader(headerLines: string[], lineNumbers: number[] = []): VCFHeader {
+    const header: VCFHeader = {
+        fileFormat: null,
+        info: {},
+        format: {},
+        filter: {},
+        contigs: [],
+        meta: {},
+        columns: [],
+        columnsLine: null,
+        samples: [],
+        malformed: []
+    };
+
+    headerLines.forEach((text, i) => {
+        const line = lineNumbers[i] ?? i + 1;
+
+        if (text.startsWith('#CHROM')) {
+            header.columns = text.slice(1).split('\t');
+            header.columnsLine = line;
+            header.samples = header.columns.slice(9).filter(Boolean);
+            return;
+        }
+
+        if (!text.startsWith('##')) {
+            header.malformed.push({ line, text, reason: 'Header line must start with "##" or "#CHROM".' });
+            return;
+        }
+
+        const eq = text.indexOf('=');
+        if (eq < 0) {
+            header.malformed.push({ line, text, reason: 'Meta-information line has no "=".' });
+            return;
+        }
+
+        const key = text.slice(2, eq);
+        const value = text.slice(eq + 1);
+
+        if (key === 'fileformat') {
+            header.fileFormat = value;
+            return;
+        }
+
+        if (!STRUCTURED_KEYS.includes(key)) {
+            (header.meta[key] = header.meta[key] ?? []).push(value);
+            return;
+        }
+
+        const fields = parseStructuredValue(value);
+        if (!fields || !fields.ID) {
+            header.malformed.push({ line, text, reason: `##${key} definition must be "<ID=...,...>".` });
+            return;
+        }
+
+        if (key === 'contig') {
+            const length = fields.length ? parseInt(fields.length, 10) : undefined;
+            header.contigs.push({ id: fields.ID, length: Number.isFinite(length) ? length : undefined, assembly: fields.assembly, line });
+            return;
+        }
+
+        const definition: HeaderDefinition = {
+            id: fields.ID,
+            number: fields.Number,
+            type: fields.Type,
+            description: fields.Description,
+            line
+        };
+        if (key === 'INFO') header.info[fields.ID] = definition;
+        else if (key === 'FORMAT') header.format[fields.ID] = definition;
+        else header.filter[fields.ID] = definition;
+    });
+
+    return header;
+}
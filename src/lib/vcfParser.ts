@@ -1,14 +1,286 @@
+import { VCFHeader, parseVCFHeader } from './vcfHeader';
+import { ValidationReport, VCFRecordValidator, createVCFValidator } from './vcfValidation';
+
+export type GenomeBuild = 'GRCh37' | 'GRCh38';
+
+export type GenomeBuildSource = 'override' | 'contig-lengths' | 'header' | 'undetermined';
+
+// 'vcf' or a direct-to-consumer genotyping array export (see rawGenotypeParser.ts)
+export type GenotypeFileFormat = 'vcf' | '23andme' | 'ancestrydna';
+
+export interface GenotypeCall {
+    alleles: (number | null)[]; // Allele indices in GT order: 0 = REF, n = alts[n - 1], null = missing
+    ploidy: number;
+    phased: boolean; // GT written with '|': alleles are in haplotype order
+    phaseSet: string | null; // FORMAT PS; phased calls sharing it are phased relative to each other
+    depth: number | null; // FORMAT DP (falls back to the sum of AD)
+    genotypeQuality: number | null; // FORMAT GQ
+    alleleDepths: number[] | null; // FORMAT AD, one entry per allele (REF first)
+    sampleFilter: string | null; // FORMAT FT
+    copyNumber: number | null; // FORMAT CN (copy-number / structural variant callers)
+}
+
 export interface VCFVariant {
-    chrom: string;
+    chrom: string; // Normalized: no 'chr' prefix, 'MT' for mitochondria
     pos: number;
     id: string; // rsID if available
     ref: string;
     alt: string;
+    alts: string[]; // ALT column split on ',' (empty when ALT is '.')
+    end: number; // Last reference base covered (INFO END / SVLEN for reference blocks and structural variants)
+    referenceBlock: boolean; // gVCF reference block: only symbolic <NON_REF>/<*> ALTs and an END
     qual: string;
     filter: string;
     info: Record<string, string>;
     format: string;
-    sampleData: string[];
+    sampleData: string[]; // One normalized genotype per sample, in header order
+    genotypes: GenotypeCall[]; // Parsed GT of every sample, in header order
+}
+
+export interface VCFParseOptions {
+    /**
+     * Cheap pre-filter evaluated on the first three columns of every record.
+     * Records it rejects are skipped before INFO and sample columns are parsed.
+     */
+    includeRecord?: (chrom: string, pos: number, id: string) => boolean;
+    /**
+     * Evaluated for gVCF reference blocks and symbolic structural variants
+     * (`<DEL>`, `<DUP>`, `<CNV>`) rejected by includeRecord, with the record's
+     * covered range, so records spanning a locus of interest are kept.
+     */
+    includeRange?: (chrom: string, start: number, end: number) => boolean;
+    /** Caller-supplied genome build; skips header-based detection when set. */
+    build?: GenomeBuild;
+}
+
+export interface ParsedVCF {
+    format: GenotypeFileFormat;
+    headerLines: string[];
+    header: VCFHeader;
+    samples: string[]; // Sample IDs from the #CHROM header line
+    build: GenomeBuild | null;
+    buildSource: GenomeBuildSource;
+    variants: VCFVariant[];
+    recordCount: number; // All data rows seen, including those skipped by includeRecord
+    validation: ValidationReport;
+}
+
+// ---------------------------------------------------------
+// CHROMOSOME NAMING & GENOME BUILD DETECTION
+// ---------------------------------------------------------
+
+// RefSeq accessions (NC_0000xx) used by some pipelines instead of chromosome names
+const REFSEQ_CHROMOSOMES: Record<string, string> = { '23': 'X', '24': 'Y' };
+
+/**
+ * Normalizes chromosome names across naming styles:
+ * `chr22`, `22` and `NC_000022.11` all become `22`; `chrM`/`M` become `MT`.
+ */
+export function normalizeChromosome(name: string): string {
+    const refseq = /^NC_0000(\d{2})\.\d+$/.exec(name);
+    if (refseq) {
+        const num = String(parseInt(refseq[1], 10));
+        return REFSEQ_CHROMOSOMES[num] ?? num;
+    }
+    if (/^NC_012920\.\d+$/.test(name)) return 'MT';
+
+    const bare = name.replace(/^chr/i, '');
+    if (bare.toUpperCase() === 'M' || bare.toUpperCase() === 'MT') return 'MT';
+    return /^[xy]$/.test(bare) ? bare.toUpperCase() : bare;
+}
+
+// Primary assembly contig lengths, which differ between builds for every chromosome
+const CONTIG_LENGTHS: Record<GenomeBuild, Record<string, number>> = {
+    GRCh37: {
+        '1': 249250621, '2': 243199373, '3': 198022430, '4': 191154276, '5': 180915260, '6': 171115067,
+        '7': 159138663, '8': 146364022, '9': 141213431, '10': 135534747, '11': 135006516, '12': 133851895,
+        '13': 115169878, '14': 107349540, '15': 102531392, '16': 90354753, '17': 81195210, '18': 78077248,
+        '19': 59128983, '20': 63025520, '21': 48129895, '22': 51304566, X: 155270560, Y: 59373566
+    },
+    GRCh38: {
+        '1': 248956422, '2': 242193529, '3': 198295559, '4': 190214555, '5': 181538259, '6': 170805979,
+        '7': 159345973, '8': 145138636, '9': 138394717, '10': 133797422, '11': 135086622, '12': 133275309,
+        '13': 114364328, '14': 107043718, '15': 101991189, '16': 90338345, '17': 83257441, '18': 80373285,
+        '19': 58617616, '20': 64444167, '21': 46709983, '22': 50818468, X: 156040895, Y: 57227415
+    }
+};
+
+const BUILD_ALIASES: [RegExp, GenomeBuild][] = [
+    [/grch38|hg38|hs38|assembly38|GCA_000001405\.15/i, 'GRCh38'],
+    [/grch37|hg19|hs37|b37|g1k_v37|assembly19|GCA_000001405\.1\b/i, 'GRCh37']
+];
+
+/**
+ * Maps a build name or alias (`hg19`, `b37`, `GRCh38`, `hg38`...) to a GenomeBuild.
+ */
+export function parseGenomeBuild(value: string): GenomeBuild | null {
+    for (const [pattern, build] of BUILD_ALIASES) {
+        if (pattern.test(value)) return build;
+    }
+    return null;
+}
+
+/**
+ * Infers the genome build from VCF header metadata.
+ * `##contig` lengths are the strongest signal; `##reference` and contig
+ * `assembly=` values are used when no contig length is conclusive.
+ */
+export function detectGenomeBuild(headerLines: string[]): { build: GenomeBuild | null; source: GenomeBuildSource } {
+    const votes: Record<GenomeBuild, number> = { GRCh37: 0, GRCh38: 0 };
+    let declared: GenomeBuild | null = null;
+
+    for (const line of headerLines) {
+        if (line.startsWith('##contig=')) {
+            const id = /[<,]ID=([^,>]+)/.exec(line)?.[1];
+            const length = /[<,]length=(\d+)/.exec(line)?.[1];
+            if (id && length) {
+                const chrom = normalizeChromosome(id);
+                for (const build of Object.keys(CONTIG_LENGTHS) as GenomeBuild[]) {
+                    if (CONTIG_LENGTHS[build][chrom] === parseInt(length, 10)) votes[build]++;
+                }
+            }
+            const assembly = /[<,]assembly=([^,>]+)/.exec(line)?.[1];
+            if (assembly && !declared) declared = parseGenomeBuild(assembly);
+        } else if (line.startsWith('##reference=') && !declared) {
+            declared = parseGenomeBuild(line.slice('##reference='.length));
+        }
+    }
+
+    if (votes.GRCh37 !== votes.GRCh38) {
+        return { build: votes.GRCh37 > votes.GRCh38 ? 'GRCh37' : 'GRCh38', source: 'contig-lengths' };
+    }
+    if (declared) return { build: declared, source: 'header' };
+    return { build: null, source: 'undetermined' };
+}
+
+/**
+ * Parses a GT value such as `0/1`, `1|2`, `1` (haploid) or `./.` into allele indices.
+ * A call is phased when every separator is '|'. An empty value yields a call with no alleles.
+ */
+function parseGenotype(gt: string): Pick<GenotypeCall, 'alleles' | 'ploidy' | 'phased'> {
+    if (!gt) return { alleles: [], ploidy: 0, phased: false };
+    const alleles = gt.split(/[/|]/).map(a => (a === '.' || a === '' ? null : parseInt(a, 10)));
+    return { alleles, ploidy: alleles.length, phased: gt.includes('|') && !gt.includes('/') };
+}
+
+function parseNumber(value: string | undefined): number | null {
+    if (value === undefined || value === '' || value === '.') return null;
+    const num = Number(value);
+    return Number.isFinite(num) ? num : null;
+}
+
+/**
+ * Parses one sample column against the record's FORMAT keys into a GenotypeCall,
+ * keeping the phase set (PS) and call-quality fields (DP, GQ, AD, FT) alongside the GT.
+ */
+function parseSampleColumn(formatKeys: string[], raw: string): GenotypeCall {
+    const values = raw.split(':');
+    const field = (key: string) => {
+        const index = formatKeys.indexOf(key);
+        return index >= 0 ? values[index] : undefined;
+    };
+
+    const adValues = field('AD');
+    const alleleDepths = adValues && adValues !== '.'
+        ? adValues.split(',').map(v => parseNumber(v) ?? 0)
+        : null;
+
+    const ft = field('FT');
+    const ps = field('PS');
+
+    return {
+        // GT is always the first FORMAT key when present
+        ...parseGenotype(formatKeys[0] === 'GT' ? values[0] : ''),
+        phaseSet: ps && ps !== '.' ? ps : null,
+        depth: parseNumber(field('DP')) ?? parseNumber(field('MIN_DP')) ?? (alleleDepths ? alleleDepths.reduce((sum, d) => sum + d, 0) : null),
+        genotypeQuality: parseNumber(field('GQ')),
+        alleleDepths,
+        sampleFilter: ft && ft !== '.' ? ft : null,
+        copyNumber: parseNumber(field('CN'))
+    };
+}
+
+/**
+ * Normalizes a call to an unphased, sorted GT string (e.g. `1|0` -> `0/1`, `2/1` -> `1/2`).
+ * Calls without a GT are reported as 'Unknown'.
+ */
+export function formatGenotype(call: GenotypeCall): string {
+    if (call.ploidy === 0) return 'Unknown';
+    return [...call.alleles]
+        .sort((a, b) => (a ?? -1) - (b ?? -1))
+        .map(a => (a === null ? '.' : String(a)))
+        .join('/');
+}
+
+const SYMBOLIC_REFERENCE_ALTS = ['<NON_REF>', '<*>'];
+
+/**
+ * END of a gVCF reference block (a record whose ALTs are only `<NON_REF>` / `<*>`
+ * and which carries INFO END), or null for any other record.
+ */
+function referenceBlockEnd(alt: string, info: string): number | null {
+    if (alt !== '.' && !alt.split(',').every(a => SYMBOLIC_REFERENCE_ALTS.includes(a))) return null;
+    const end = /(?:^|;)END=(\d+)/.exec(info);
+    return end ? parseInt(end[1], 10) : null;
+}
+
+/**
+ * Last reference base of a structural variant with a symbolic ALT (`<DEL>`,
+ * `<DUP>`, `<CNV>`, ...), from INFO END or else SVLEN. Null for other records.
+ */
+function structuralVariantEnd(pos: number, alt: string, info: string): number | null {
+    if (!alt.split(',').some(a => a.startsWith('<') && !SYMBOLIC_REFERENCE_ALTS.includes(a))) return null;
+    const end = /(?:^|;)END=(\d+)/.exec(info);
+    if (end) return parseInt(end[1], 10);
+    const svLength = /(?:^|;)SVLEN=-?(\d+)/.exec(info);
+    return svLength ? pos + parseInt(svLength[1], 10) : null;
+}
+
+/**
+ * Parses the tab-split fields of a single VCF data row.
+ * Returns null for rows with fewer than 8 fields.
+ */
+function parseVCFLine(fields: string[]): VCFVariant | null {
+    if (fields.length < 8) return null;
+
+    const [chrom, posStr, id, ref, alt, qual, filter, infoStr, format, ...sampleData] = fields;
+
+    // Parse INFO field
+    const infoPieces = infoStr.split(';');
+    const info: Record<string, string> = {};
+    for (const piece of infoPieces) {
+        if (piece.includes('=')) {
+            const [key, val] = piece.split('=');
+            info[key] = val;
+        } else {
+            info[piece] = 'true';
+        }
+    }
+
+    // Extract the genotype and call-quality fields of every sample
+    const formatKeys = (format || '').split(':');
+    const genotypes = sampleData.map(raw => parseSampleColumn(formatKeys, raw));
+
+    const normalizedChrom = normalizeChromosome(chrom);
+    const pos = parseInt(posStr, 10);
+    const blockEnd = referenceBlockEnd(alt, infoStr);
+
+    return {
+        chrom: normalizedChrom,
+        pos,
+        id: id === '.' ? `chr${normalizedChrom}:${posStr}` : id,
+        ref,
+        alt,
+        alts: alt === '.' ? [] : alt.split(','),
+        end: blockEnd ?? structuralVariantEnd(pos, alt, infoStr) ?? pos + ref.length - 1,
+        referenceBlock: blockEnd !== null,
+        qual,
+        filter,
+        info,
+        format: format || '',
+        sampleData: genotypes.length > 0 ? genotypes.map(formatGenotype) : ['Unknown'], // OVERRIDE RAW WITH STRICT STRINGS
+        genotypes
+    };
 }
 
 /**
@@ -24,48 +296,115 @@ export function parseVCF(vcfString: string): VCFVariant[] {
         const line = lines[i].trim();
         if (!line || line.startsWith('#')) continue;
 
-        const fields = line.split('\t');
-        if (fields.length < 8) continue;
-
-        const [chrom, posStr, id, ref, alt, qual, filter, infoStr, format, ...sampleData] = fields;
-
-        // Parse INFO field
-        const infoPieces = infoStr.split(';');
-        const info: Record<string, string> = {};
-        for (const piece of infoPieces) {
-            if (piece.includes('=')) {
-                const [key, val] = piece.split('=');
-                info[key] = val;
-            } else {
-                info[piece] = 'true';
+        const variant = parseVCFLine(line.split('\t'));
+        if (variant) variants.push(variant);
+    }
+
+    return variants;
+}
+
+/**
+ * Splits a byte stream into text lines, decoding chunk by chunk.
+ * Only the current partial line is ever held in memory.
+ */
+export async function* readLines(stream: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+    const reader = stream.getReader();
+    const decoder = new TextDecoder('utf-8');
+    let remainder = '';
+
+    try {
+        while (true) {
+            const { value, done } = await reader.read();
+            if (done) break;
+
+            const text = remainder + decoder.decode(value, { stream: true });
+            const lines = text.split('\n');
+            remainder = lines.pop() ?? '';
+            yield* lines;
+        }
+        remainder += decoder.decode();
+        if (remainder) yield remainder;
+    } finally {
+        reader.releaseLock();
+    }
+}
+
+/**
+ * Incrementally parses a VCF byte stream (e.g. a whole genome) with bounded memory.
+ * Header lines are retained; data rows are only materialised when they pass
+ * `options.includeRecord`, so callers can restrict parsing to loci of interest.
+ * Every row is validated (see vcfValidation.ts) and rows that cannot be parsed are skipped.
+ * Edge compatible (no fs/node dependencies).
+ */
+export function parseVCFStream(stream: ReadableStream<Uint8Array>, options: VCFParseOptions = {}): Promise<ParsedVCF> {
+    return parseVCFLines(readLines(stream), options);
+}
+
+/**
+ * Line-level core of parseVCFStream. `lines` must yield every line of the file,
+ * blank ones included, so that validation line numbers stay accurate.
+ */
+export async function parseVCFLines(lines: AsyncIterable<string>, options: VCFParseOptions = {}): Promise<ParsedVCF> {
+    const headerLines: string[] = [];
+    const headerLineNumbers: number[] = [];
+    const variants: VCFVariant[] = [];
+    let header: VCFHeader | null = null;
+    let validator: VCFRecordValidator | null = null;
+    let lineNumber = 0;
+    let recordCount = 0;
+
+    for await (const rawLine of lines) {
+        lineNumber++;
+        // Only the line ending is stripped: a trailing tab still delimits an empty last column
+        const line = rawLine.replace(/\r$/, '');
+        if (!line.trim()) continue;
+
+        if (!validator) {
+            if (line.startsWith('#')) {
+                headerLines.push(line);
+                headerLineNumbers.push(lineNumber);
+                continue;
             }
+            // The header ends at the first data row
+            header = parseVCFHeader(headerLines, headerLineNumbers);
+            validator = createVCFValidator(header);
         }
 
-        // Extract ONLY the genotype (e.g. 0/0, 0/1, 1/1)
-        let exactGenotype = 'Unknown';
-        if (sampleData && sampleData.length > 0) {
-            const raw = sampleData[0];
-            const gt = raw.split(':')[0];
-            // Normalize separators to strictly use '/'
-            if (gt === '0/0' || gt === '0|0') exactGenotype = '0/0';
-            else if (gt === '0/1' || gt === '0|1' || gt === '1/0' || gt === '1|0') exactGenotype = '0/1';
-            else if (gt === '1/1' || gt === '1|1') exactGenotype = '1/1';
-            // Anything else (missing or multiallelic not supported) is Unknown
+        if (line.startsWith('#')) {
+            validator.addIssue('warning', 'MISPLACED_HEADER_LINE', lineNumber, 'Header line appears after the first data record and was ignored.');
+            continue;
         }
 
-        variants.push({
-            chrom,
-            pos: parseInt(posStr, 10),
-            id: id === '.' ? `chr${chrom}:${posStr}` : id,
-            ref,
-            alt,
-            qual,
-            filter,
-            info,
-            format: format || '',
-            sampleData: [exactGenotype] // OVERRIDE RAW WITH STRICT STRING
-        });
+        recordCount++;
+
+        const fields = line.split('\t');
+        if (!validator.checkRecord(fields, lineNumber)) continue;
+        if (options.includeRecord && !options.includeRecord(fields[0], parseInt(fields[1], 10), fields[2])) {
+            const pos = parseInt(fields[1], 10);
+            const rangeEnd = options.includeRange ? referenceBlockEnd(fields[4], fields[7]) ?? structuralVariantEnd(pos, fields[4], fields[7]) : null;
+            if (rangeEnd === null || !options.includeRange?.(fields[0], pos, rangeEnd)) continue;
+        }
+
+        const variant = parseVCFLine(fields);
+        if (variant) variants.push(variant);
     }
 
-    return variants;
+    header = header ?? parseVCFHeader(headerLines, headerLineNumbers);
+    const validation = (validator ?? createVCFValidator(header)).finish();
+
+    const detected = options.build
+        ? { build: options.build, source: 'override' as const }
+        : detectGenomeBuild(headerLines);
+
+    return {
+        format: 'vcf',
+        headerLines,
+        header,
+        samples: header.samples,
+        build: detected.build,
+        buildSource: detected.source,
+        variants,
+        recordCount,
+        validation
+    };
 }
@@ -0,0 +1,237 @@
+/**
+ * Line-level VCF validation.
+ * Errors mark problems that make the file or a record unusable; warnings mark
+ * problems the parser can work around but that may reduce what gets called.
+ */
+
+import { VCFHeader, parseVCFHeader } from './vcfHeader';
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export interface ValidationIssue {
+    severity: ValidationSeverity;
+    code: string;
+    line: number | null; // 1-based file line, null for whole-file issues
+    message: string;
+}
+
+export interface ValidationReport {
+    valid: boolean; // False when any error was found
+    errors: ValidationIssue[];
+    warnings: ValidationIssue[];
+    errorCount: number; // Total errors, including those not listed
+    warningCount: number; // Total warnings, including those not listed
+    counts: Record<string, number>; // Total occurrences per code
+    truncated: boolean; // True when some occurrences were counted but not listed
+    skippedRecords: number; // Data rows dropped because they could not be parsed
+}
+
+export interface ValidationCollector {
+    addIssue(severity: ValidationSeverity, code: string, line: number | null, message: string): void;
+    /** Adds an error for a data row that could not be used. */
+    skipRecord(code: string, line: number, message: string): void;
+    finish(): ValidationReport;
+}
+
+export interface VCFRecordValidator extends ValidationCollector {
+    /** Checks one tab-split data row. Returns false when the row must be skipped. */
+    checkRecord(fields: string[], line: number): boolean;
+}
+
+// Only the first occurrences of each code are listed to keep whole-genome reports bounded
+const MAX_ISSUES_PER_CODE = 20;
+
+const FIXED_COLUMNS = ['CHROM', 'POS', 'ID', 'REF', 'ALT', 'QUAL', 'FILTER', 'INFO'];
+
+const VALID_REF = /^[ACGTN]+$/i;
+const VALID_POS = /^[1-9]\d*$/;
+
+function checkHeader(header: VCFHeader, addIssue: ValidationCollector['addIssue']) {
+    if (header.fileFormat === null) {
+        addIssue('error', 'MISSING_FILEFORMAT', 1, 'No "##fileformat=VCF" header was found; the first line of a VCF must declare its version.');
+    } else if (!header.fileFormat.startsWith('VCF')) {
+        addIssue('error', 'MISSING_FILEFORMAT', 1, `Unsupported file format "${header.fileFormat}"; expected VCFv4.x.`);
+    }
+
+    for (const entry of header.malformed) {
+        addIssue('warning', 'MALFORMED_HEADER_LINE', entry.line, `${entry.reason} The line was ignored.`);
+    }
+
+    if (header.columnsLine === null) {
+        addIssue('error', 'MISSING_COLUMN_HEADER', null, 'No "#CHROM" column header line was found.');
+        return;
+    }
+
+    const fixed = header.columns.slice(0, FIXED_COLUMNS.length);
+    if (fixed.join('\t') !== FIXED_COLUMNS.join('\t')) {
+        addIssue('error', 'INVALID_COLUMN_HEADER', header.columnsLine, `The column header must start with ${FIXED_COLUMNS.join(', ')}.`);
+    }
+    if (header.columns.length > FIXED_COLUMNS.length && header.columns[8] !== 'FORMAT') {
+        addIssue('error', 'INVALID_COLUMN_HEADER', header.columnsLine, 'Sample columns must be preceded by a FORMAT column.');
+    }
+}
+
+/**
+ * Collects issues into a ValidationReport, listing at most MAX_ISSUES_PER_CODE of each code.
+ * Shared by the VCF validator and the consumer raw-data parsers.
+ */
+export function createValidationCollector(): ValidationCollector {
+    const errors: ValidationIssue[] = [];
+    const warnings: ValidationIssue[] = [];
+    const counts: Record<string, number> = {};
+    let errorCount = 0;
+    let warningCount = 0;
+    let truncated = false;
+    let skippedRecords = 0;
+
+    const addIssue: ValidationCollector['addIssue'] = (severity, code, line, message) => {
+        counts[code] = (counts[code] ?? 0) + 1;
+        if (severity === 'error') errorCount++;
+        else warningCount++;
+        if (counts[code] > MAX_ISSUES_PER_CODE) {
+            truncated = true;
+            return;
+        }
+        (severity === 'error' ? errors : warnings).push({ severity, code, line, message });
+    };
+
+    return {
+        addIssue,
+        skipRecord: (code, line, message) => {
+            skippedRecords++;
+            addIssue('error', code, line, `${message} The record was skipped.`);
+        },
+        finish: () => ({ valid: errorCount === 0, errors, warnings, errorCount, warningCount, counts, truncated, skippedRecords })
+    };
+}
+
+/**
+ * Creates a stateful validator for the data rows of a VCF whose header has
+ * already been parsed. Header-level issues are reported immediately.
+ */
+export function createVCFValidator(header: VCFHeader): VCFRecordValidator {
+    const collector = createValidationCollector();
+    const { addIssue } = collector;
+
+    const declaredContigs = new Set(header.contigs.map(c => c.id));
+    const seenChromosomes = new Set<string>();
+    const reported = new Set<string>(); // Undeclared keys are listed once each
+    let lastChrom: string | null = null;
+    let lastPos = 0;
+    let lastFormat: string | null = null;
+
+    const reportOnce = (code: string, key: string, line: number, message: string) => {
+        if (reported.has(`${code}:${key}`)) return;
+        reported.add(`${code}:${key}`);
+        addIssue('warning', code, line, message);
+    };
+
+    checkHeader(header, addIssue);
+
+    const checkRecord = (fields: string[], line: number): boolean => {
+        if (fields.length < FIXED_COLUMNS.length) {
+            collector.skipRecord('TOO_FEW_COLUMNS', line, `Record has ${fields.length} columns; at least ${FIXED_COLUMNS.length} are required.`);
+            return false;
+        }
+
+        const [chrom, posStr, , ref, , , filter, info, format] = fields;
+
+        if (!VALID_POS.test(posStr)) {
+            collector.skipRecord('INVALID_POS', line, `POS "${posStr}" is not a positive integer.`);
+            return false;
+        }
+
+        if (header.columns.length > 0 && fields.length !== header.columns.length) {
+            addIssue('warning', 'COLUMN_COUNT_MISMATCH', line, `Record has ${fields.length} columns but the header declares ${header.columns.length}.`);
+        }
+
+        if (!VALID_REF.test(ref)) {
+            addIssue('warning', 'INVALID_REF', line, `REF "${ref.slice(0, 20)}" contains characters other than A, C, G, T and N.`);
+        }
+
+        const pos = parseInt(posStr, 10);
+        if (chrom === lastChrom && pos < lastPos) {
+            addIssue('warning', 'UNSORTED_POSITION', line, `Position ${chrom}:${pos} comes after ${chrom}:${lastPos}; records are not sorted.`);
+        } else if (chrom !== lastChrom && seenChromosomes.has(chrom)) {
+            addIssue('warning', 'UNSORTED_CHROMOSOME', line, `Records for chromosome ${chrom} are not contiguous.`);
+        }
+        if (chrom !== lastChrom) seenChromosomes.add(chrom);
+        lastChrom = chrom;
+        lastPos = pos;
+
+        if (declaredContigs.size > 0 && !declaredContigs.has(chrom)) {
+            reportOnce('UNDECLARED_CONTIG', chrom, line, `Chromosome "${chrom}" is not declared by a ##contig header line.`);
+        }
+
+        if (filter !== '.' && filter !== 'PASS') {
+            for (const name of filter.split(';')) {
+                if (!header.filter[name]) {
+                    reportOnce('UNDECLARED_FILTER', name, line, `FILTER "${name}" is not declared by a ##FILTER header line.`);
+                }
+            }
+        }
+
+        if (info && info !== '.') {
+            for (const piece of info.split(';')) {
+                const key = piece.split('=', 1)[0];
+                if (key && !header.info[key]) {
+                    reportOnce('UNDECLARED_INFO', key, line, `INFO key "${key}" is not declared by a ##INFO header line.`);
+                }
+            }
+        }
+
+        // FORMAT is usually identical on every row, so only re-check when it changes
+        if (format && format !== lastFormat) {
+            lastFormat = format;
+            for (const key of format.split(':')) {
+                if (!header.format[key]) {
+                    reportOnce('UNDECLARED_FORMAT', key, line, `FORMAT key "${key}" is not declared by a ##FORMAT header line.`);
+                }
+            }
+        }
+
+        return true;
+    };
+
+    return { ...collector, checkRecord };
+}
+
+/**
+ * Validates VCF text held in memory, e.g. the prefix of an upload sniffed in the browser.
+ * A trailing partial line (cut off by the prefix) is ignored.
+ */
+export function validateVCFText(text: string, isPrefix = false): { header: VCFHeader; report: ValidationReport } {
+    const lines = text.split('\n');
+    if (isPrefix) lines.pop();
+
+    const headerLines: string[] = [];
+    const headerLineNumbers: number[] = [];
+    let validator: VCFRecordValidator | null = null;
+    let header: VCFHeader | null = null;
+
+    for (let i = 0; i < lines.length; i++) {
+        // Only the line ending is stripped: a trailing tab still delimits an empty last column
+        const line = lines[i].replace(/\r$/, '');
+        if (!line.trim()) continue;
+
+        if (!validator) {
+            if (line.startsWith('#')) {
+                headerLines.push(line);
+                headerLineNumbers.push(i + 1);
+                continue;
+            }
+            header = parseVCFHeader(headerLines, headerLineNumbers);
+            validator = createVCFValidator(header);
+        }
+
+        if (line.startsWith('#')) {
+            validator.addIssue('warning', 'MISPLACED_HEADER_LINE', i + 1, 'Header line appears after the first data record and was ignored.');
+        } else {
+            validator.checkRecord(line.split('\t'), i + 1);
+        }
+    }
+
+    const finalHeader = header ?? parseVCFHeader(headerLines, headerLineNumbers);
+    const report = (validator ?? createVCFValidator(finalHeader)).finish();
+    return { header: finalHeader, report };
+}
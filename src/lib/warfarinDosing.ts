@@ -0,0 +1,174 @@
+/**
+ * Genotype-guided warfarin dose estimate using the IWPC pharmacogenetic algorithm
+ * (NEJM 2009;360:753-64), with the CPIC 2017 CYP4F2*3 adjustment. The estimate is
+ * a starting point for the maintenance dose, not a substitute for INR monitoring.
+ */
+
+import { PatientProfile } from './pgxRulesBase';
+import { INDETERMINATE } from './phenotypes';
+
+export type WarfarinAncestry = 'Asian' | 'Black or African American' | 'White' | 'Other';
+
+export interface WarfarinCovariates {
+    ageYears: number;
+    heightCm: number;
+    weightKg: number;
+    ancestry?: WarfarinAncestry; // Omitted or 'Other' uses the IWPC missing/mixed term
+    medications: string[]; // Co-medications; only those the algorithm models affect the dose
+}
+
+export interface WarfarinDoseEstimate {
+    algorithm: 'IWPC pharmacogenetic';
+    weeklyDoseMg: number;
+    dailyDoseMg: number;
+    genotypes: Record<'CYP2C9' | 'VKORC1' | 'CYP4F2', string | null>; // null when not called
+    drivingGenes: string[]; // Genes whose genotype moved the dose away from the reference genotype
+    interactingMedications: string[]; // Recognized co-medications that entered the model
+    notes: string[];
+}
+
+// ---------------------------------------------------------
+// IWPC COEFFICIENTS (square root of the weekly dose)
+// ---------------------------------------------------------
+
+const INTERCEPT = 5.6044;
+const AGE_DECADES = -0.2614;
+const HEIGHT_CM = 0.0087;
+const WEIGHT_KG = 0.0128;
+const AMIODARONE = -0.5503;
+const ENZYME_INDUCER = 1.1816;
+
+const VKORC1_TERMS: Record<string, number> = { 'G/G': 0, 'A/G': -0.8677, 'A/A': -1.6974 };
+const VKORC1_UNKNOWN = -0.4854;
+
+const CYP2C9_TERMS: Record<string, number> = {
+    '*1/*1': 0,
+    '*1/*2': -0.5211,
+    '*1/*3': -0.9357,
+    '*2/*2': -1.0616,
+    '*2/*3': -1.9206,
+    '*3/*3': -2.3312
+};
+const CYP2C9_UNKNOWN = -0.2188;
+
+const ANCESTRY_TERMS: Record<WarfarinAncestry, number> = {
+    'Asian': -0.1092,
+    'Black or African American': -0.2760,
+    'White': 0,
+    'Other': -0.1032
+};
+
+const ENZYME_INDUCERS = ['CARBAMAZEPINE', 'PHENYTOIN', 'RIFAMPIN', 'RIFAMPICIN'];
+
+// CPIC: increase the dose 5-10% for CYP4F2*3 carriers of non-African ancestry
+const CYP4F2_INCREASE_PER_ALLELE = 0.05;
+
+// ---------------------------------------------------------
+// GENOTYPES
+// ---------------------------------------------------------
+
+/**
+ * VKORC1 -1639 genotype (`G/G`, `A/G`, `A/A`), or null when it was not called.
+ */
+function vkorc1Genotype(profile: PatientProfile): string | null {
+    const result = profile.genes['VKORC1'];
+    if (!result?.alleles || result.phenotype === INDETERMINATE) return null;
+    const variantAlleles = result.alleles.filter(a => a.name === '-1639A').length;
+    return ['G/G', 'A/G', 'A/A'][variantAlleles];
+}
+
+/**
+ * CYP2C9 diplotype when it is one the IWPC model covers, otherwise null.
+ */
+function cyp2c9Genotype(profile: PatientProfile): string | null {
+    const result = profile.genes['CYP2C9'];
+    if (!result || result.phenotype === INDETERMINATE) return null;
+    return result.diplotype in CYP2C9_TERMS ? result.diplotype : null;
+}
+
+/**
+ * CYP4F2*3 copies (0-2), or null when CYP4F2 was not called.
+ */
+function cyp4f2Star3Copies(profile: PatientProfile): number | null {
+    const result = profile.genes['CYP4F2'];
+    if (!result?.alleles || result.phenotype === INDETERMINATE) return null;
+    return result.alleles.filter(a => a.name === '*3').length;
+}
+
+// ---------------------------------------------------------
+// DOSE ESTIMATE
+// ---------------------------------------------------------
+
+/**
+ * Estimates the weekly warfarin maintenance dose from the patient's CYP2C9, VKORC1
+ * and CYP4F2 calls and clinical covariates. Genes that were not called use the
+ * IWPC "unknown genotype" terms and are listed in the notes.
+ */
+export function estimateWarfarinDose(profile: PatientProfile, covariates: WarfarinCovariates): WarfarinDoseEstimate {
+    const notes: string[] = [];
+    const drivingGenes: string[] = [];
+
+    const vkorc1 = vkorc1Genotype(profile);
+    const cyp2c9 = cyp2c9Genotype(profile);
+    const cyp4f2 = cyp4f2Star3Copies(profile);
+
+    const medications = covariates.medications.map(m => m.trim().toUpperCase()).filter(m => m !== '');
+    const onAmiodarone = medications.includes('AMIODARONE');
+    const inducers = medications.filter(m => ENZYME_INDUCERS.includes(m));
+    const ancestry = covariates.ancestry ?? 'Other';
+
+    let sqrtDose = INTERCEPT
+        + AGE_DECADES * Math.min(Math.floor(covariates.ageYears / 10), 9)
+        + HEIGHT_CM * covariates.heightCm
+        + WEIGHT_KG * covariates.weightKg
+        + ANCESTRY_TERMS[ancestry];
+
+    if (vkorc1 === null) {
+        sqrtDose += VKORC1_UNKNOWN;
+        notes.push('VKORC1 -1639G>A was not called; the IWPC unknown-genotype term was used.');
+    } else {
+        sqrtDose += VKORC1_TERMS[vkorc1];
+        if (vkorc1 !== 'G/G') drivingGenes.push('VKORC1');
+    }
+
+    if (cyp2c9 === null) {
+        sqrtDose += CYP2C9_UNKNOWN;
+        notes.push('CYP2C9 diplotype was not called or is not covered by the IWPC model; the unknown-genotype term was used.');
+    } else {
+        sqrtDose += CYP2C9_TERMS[cyp2c9];
+        if (cyp2c9 !== '*1/*1') drivingGenes.push('CYP2C9');
+    }
+
+    if (onAmiodarone) sqrtDose += AMIODARONE;
+    if (inducers.length > 0) sqrtDose += ENZYME_INDUCER;
+
+    let weeklyDose = Math.max(sqrtDose, 0) ** 2;
+
+    if (cyp4f2 === null) {
+        notes.push('CYP4F2*3 was not called; no CYP4F2 adjustment was applied.');
+    } else if (cyp4f2 > 0 && ancestry === 'Black or African American') {
+        notes.push('CYP4F2*3 adjustment is not recommended for patients of African ancestry and was not applied.');
+    } else if (cyp4f2 > 0) {
+        weeklyDose *= 1 + CYP4F2_INCREASE_PER_ALLELE * cyp4f2;
+        drivingGenes.push('CYP4F2');
+        notes.push(`Dose increased ${Math.round(cyp4f2 * CYP4F2_INCREASE_PER_ALLELE * 100)}% for ${cyp4f2} CYP4F2*3 allele(s).`);
+    }
+
+    if (ancestry === 'Black or African American') {
+        notes.push('CPIC recommends considering CYP2C9*5, *6, *8, *11 and rs12777823 in patients of African ancestry; these are not on the tested panel.');
+    }
+
+    return {
+        algorithm: 'IWPC pharmacogenetic',
+        weeklyDoseMg: Math.round(weeklyDose * 10) / 10,
+        dailyDoseMg: Math.round(weeklyDose / 7 * 10) / 10,
+        genotypes: {
+            CYP2C9: cyp2c9,
+            VKORC1: vkorc1,
+            CYP4F2: cyp4f2 === null ? null : profile.genes['CYP4F2'].diplotype
+        },
+        drivingGenes,
+        interactingMedications: [...(onAmiodarone ? ['AMIODARONE'] : []), ...inducers],
+        notes
+    };
+}
@@ -0,0 +1,138 @@
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { gzipSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { NextRequest } from 'next/server';
+
+// Explanations fall back to their placeholder text instead of calling the LLM
+delete process.env.GROQ_API_KEY;
+const { POST } = await import('@/app/api/analyze/route');
+
+function analyze(options: string | null, {
+    fixture = 'cyp2c19-poor.vcf',
+    url = 'http://localhost/api/analyze',
+    body = readFileSync(path.join(__dirname, 'golden/fixtures', fixture)) as Uint8Array
+} = {}) {
+    const headers: Record<string, string> = { 'content-type': 'application/octet-stream' };
+    if (options !== null) headers['x-analysis-options'] = options;
+    return POST(new NextRequest(url, { method: 'POST', body: new Uint8Array(body), headers }));
+}
+
+describe('raw-body upload options', () => {
+    it('reads the options from the X-Analysis-Options header', async () => {
+        const res = await analyze(JSON.stringify({ drugs: 'CLOPIDOGREL', age: 40, pregnant: 'false' }));
+        expect(res.status).toBe(200);
+        const json = await res.json();
+        expect(json.results.map((r: { drug: string }) => r.drug)).toEqual(['CLOPIDOGREL']);
+        expect(json.patient_context.age_years).toBe(40);
+    });
+
+    it('ignores options in the query string', async () => {
+        const res = await analyze(null, { url: 'http://localhost/api/analyze?drugs=CLOPIDOGREL&age=40' });
+        const json = await res.json();
+        expect(json.results.length).toBeGreaterThan(1);
+        expect(json.patient_context.age_years).toBeNull();
+    });
+
+    it.each(['[1', '["CLOPIDOGREL"]', '"CLOPIDOGREL"'])('rejects the malformed header %s', async header => {
+        const res = await analyze(header);
+        expect(res.status).toBe(400);
+        expect((await res.json()).error).toBe('Invalid analysis options');
+    });
+});
+
+describe('standard_doses', () => {
+    it('applies the dose guidance to the named standard dose', async () => {
+        const res = await analyze(JSON.stringify({ drugs: 'AZATHIOPRINE', standard_doses: 'Imuran:2.5', weight_kg: 70 }), { fixture: 'tpmt-poor.vcf' });
+        const [result] = (await res.json()).results;
+        expect(result.clinical_recommendation.calculated_dose).toMatchObject({
+            dose_basis: 'mg/kg',
+            standard_dose: 2.5,
+            percent_of_standard: [10, 10],
+            adjusted_dose: [0.25, 0.25],
+            adjusted_mg: [17.5, 17.5],
+            frequency: '3 times weekly'
+        });
+    });
+
+    it.each([
+        ['Imuran', 'entries must look like "drug:dose"'],
+        ['Imuran:abc', 'entries must look like "drug:dose"'],
+        ['Imuran:-2', 'entries must look like "drug:dose"'],
+        [':2.5', 'entries must look like "drug:dose"'],
+        ['Imuran:2.5, Notadrug:10', '"Notadrug" in "standard_doses" does not name a single drug']
+    ])('rejects %s', async (doses, message) => {
+        const res = await analyze(JSON.stringify({ standard_doses: doses }));
+        expect(res.status).toBe(400);
+        const json = await res.json();
+        expect(json.error).toBe('Invalid standard doses');
+        expect(json.message).toContain(message);
+    });
+});
+
+describe('phenoconversion', () => {
+    it('does not let a drug phenoconvert its own metabolism', async () => {
+        const res = await analyze(JSON.stringify({ drugs: 'OMEPRAZOLE,CLOPIDOGREL', medications: 'Prilosec' }), { fixture: 'cyp2c19-normal.vcf' });
+        const results: { drug: string; pharmacogenomic_profile: { contributing_genes: { phenotype: string }[]; phenoconversion: unknown[] } }[] = (await res.json()).results;
+        const byDrug = Object.fromEntries(results.map(r => [r.drug, r.pharmacogenomic_profile]));
+        // Omeprazole is a moderate CYP2C19 inhibitor: it converts clopidogrel's CYP2C19, not its own
+        expect(byDrug.CLOPIDOGREL.contributing_genes[0].phenotype).toBe('Intermediate Metabolizer');
+        expect(byDrug.CLOPIDOGREL.phenoconversion).toHaveLength(1);
+        expect(byDrug.OMEPRAZOLE.contributing_genes[0].phenotype).toBe('Normal Metabolizer');
+        expect(byDrug.OMEPRAZOLE.phenoconversion).toEqual([]);
+    });
+});
+
+describe('compressed uploads', () => {
+    const vcf = readFileSync(path.join(__dirname, 'golden/fixtures/cyp2c19-poor.vcf'));
+
+    it('analyzes a gzip-compressed VCF', async () => {
+        const res = await analyze(JSON.stringify({ drugs: 'CLOPIDOGREL' }), { body: gzipSync(vcf) });
+        expect(res.status).toBe(200);
+        const [result] = (await res.json()).results;
+        expect(result.pharmacogenomic_profile.contributing_genes[0].phenotype).toBe('Poor Metabolizer');
+    });
+
+    it.each([
+        ['corrupt', (bytes: Uint8Array) => bytes.fill(0xff, 10, 40)],
+        ['truncated', (bytes: Uint8Array) => bytes.subarray(0, bytes.length >> 1)]
+    ])('returns 422 for %s gzip data', async (_, damage) => {
+        const res = await analyze(null, { body: damage(gzipSync(vcf)) });
+        expect(res.status).toBe(422);
+        expect((await res.json()).error).toBe('Invalid compressed VCF');
+    });
+});
+
+describe('sample selection', () => {
+    type SampleResult = { sample_id: string; pharmacogenomic_profile: { contributing_genes: { phenotype: string }[] }; llm_generated_explanation: { summary: string } };
+    const phenotypeOf = (result: SampleResult) => result.pharmacogenomic_profile.contributing_genes[0].phenotype;
+
+    it('analyses only the requested sample column', async () => {
+        const res = await analyze(JSON.stringify({ drugs: 'CLOPIDOGREL', sample: 'S2' }), { fixture: 'multi-sample.vcf' });
+        expect(res.status).toBe(200);
+        const json = await res.json();
+        expect(json.samples.map((s: { sample_id: string }) => s.sample_id)).toEqual(['S2']);
+        expect(json.results[0].sample_id).toBe('S2');
+        expect(phenotypeOf(json.results[0])).toBe('Poor Metabolizer');
+    });
+
+    it('analyses every sample by default and explains only the first', async () => {
+        const res = await analyze(JSON.stringify({ drugs: 'CLOPIDOGREL' }), { fixture: 'multi-sample.vcf' });
+        const json = await res.json();
+        const results: SampleResult[] = json.samples.map((s: { results: SampleResult[] }) => s.results[0]);
+        expect(results.map(r => r.sample_id)).toEqual(['S1', 'S2', 'S3']);
+        expect(results.map(phenotypeOf)).toEqual(['Normal Metabolizer', 'Poor Metabolizer', 'Rapid Metabolizer']);
+        expect(json.results[0].sample_id).toBe('S1');
+        expect(results[0].llm_generated_explanation.summary).toContain('Missing GROQ API Key');
+        expect(results[1].llm_generated_explanation.summary).toContain('Re-run with sample=S2');
+        expect(results[2].llm_generated_explanation.summary).toContain('Re-run with sample=S3');
+    });
+
+    it('rejects a sample the VCF does not have', async () => {
+        const res = await analyze(JSON.stringify({ sample: 'S4' }), { fixture: 'multi-sample.vcf' });
+        expect(res.status).toBe(400);
+        const json = await res.json();
+        expect(json.error).toBe('Unknown sample');
+        expect(json.message).toContain('Available samples: S1, S2, S3');
+    });
+});
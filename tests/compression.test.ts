@@ -0,0 +1,118 @@
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { gzipSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { DecompressionError, decompressIfGzipped, isGzip, readTextPrefix } from '@/lib/compression';
+
+const VCF = readFileSync(path.join(__dirname, 'golden/fixtures/cyp2c19-poor.vcf'), 'utf8');
+const encoder = new TextEncoder();
+
+// A stream that hands out `bytes` in chunks of at most `chunkSize`, like a network upload
+function streamOf(bytes: Uint8Array, chunkSize = 64): ReadableStream<Uint8Array> {
+    let offset = 0;
+    return new ReadableStream<Uint8Array>({
+        pull(controller) {
+            if (offset >= bytes.length) {
+                controller.close();
+                return;
+            }
+            controller.enqueue(bytes.slice(offset, offset + chunkSize));
+            offset += chunkSize;
+        }
+    });
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+    return new Uint8Array(Buffer.concat(parts));
+}
+
+// One BGZF block: a gzip member whose FEXTRA field carries the "BC" block size subfield
+function bgzfBlock(data: Uint8Array): Uint8Array {
+    const member = gzipSync(data);
+    const extra = new Uint8Array([6, 0, 66, 67, 2, 0, 0, 0]); // XLEN, then SI1 SI2 SLEN BSIZE
+    const block = concat(member.subarray(0, 10), extra, member.subarray(10));
+    block[3] |= 0x04;
+    const bsize = block.length - 1;
+    block[16] = bsize & 0xff;
+    block[17] = bsize >> 8;
+    return block;
+}
+
+// bgzip's end-of-file marker: an empty BGZF block
+const BGZF_EOF = bgzfBlock(new Uint8Array(0));
+
+async function decompressedText(bytes: Uint8Array, chunkSize?: number): Promise<string> {
+    return new Response(decompressIfGzipped(streamOf(bytes, chunkSize))).text();
+}
+
+describe('decompressIfGzipped', () => {
+    it('passes uncompressed input through untouched', async () => {
+        expect(await decompressedText(encoder.encode(VCF))).toBe(VCF);
+    });
+
+    it('passes empty input through', async () => {
+        expect(await decompressedText(new Uint8Array(0))).toBe('');
+    });
+
+    it('inflates gzip input', async () => {
+        expect(await decompressedText(gzipSync(VCF))).toBe(VCF);
+    });
+
+    it('inflates gzip input that arrives a byte at a time', async () => {
+        expect(await decompressedText(gzipSync(VCF), 1)).toBe(VCF);
+    });
+
+    it('inflates every member of multi-member gzip input', async () => {
+        const half = VCF.length >> 1;
+        const bytes = concat(gzipSync(VCF.slice(0, half)), gzipSync(VCF.slice(half)));
+        expect(await decompressedText(bytes)).toBe(VCF);
+    });
+
+    it('inflates BGZF blocks in order, including the empty EOF block', async () => {
+        const lines = VCF.split(/(?<=\n)/);
+        const blocks = lines.map(line => bgzfBlock(encoder.encode(line)));
+        expect(isGzip(blocks[0])).toBe(true);
+        expect(await decompressedText(concat(...blocks, BGZF_EOF), 7)).toBe(VCF);
+    });
+
+    it('throws DecompressionError for corrupt gzip data', async () => {
+        const bytes = gzipSync(VCF);
+        bytes.fill(0xff, 10, 40);
+        await expect(decompressedText(bytes)).rejects.toBeInstanceOf(DecompressionError);
+    });
+
+    it('throws DecompressionError for a truncated gzip member', async () => {
+        const bytes = gzipSync(VCF);
+        await expect(decompressedText(bytes.subarray(0, bytes.length >> 1))).rejects.toBeInstanceOf(DecompressionError);
+    });
+
+    it('throws DecompressionError for a truncated BGZF block', async () => {
+        const bytes = concat(bgzfBlock(encoder.encode(VCF)), BGZF_EOF);
+        const error = await decompressedText(bytes.subarray(0, bytes.length - BGZF_EOF.length - 20)).catch(e => e);
+        expect(error).toBeInstanceOf(DecompressionError);
+        expect(error.message).toMatch(/Truncated BGZF block/);
+    });
+
+    it('throws DecompressionError for a gzip header cut short', async () => {
+        await expect(decompressedText(gzipSync(VCF).subarray(0, 6))).rejects.toBeInstanceOf(DecompressionError);
+    });
+});
+
+describe('readTextPrefix', () => {
+    it('reads the first characters of uncompressed input', async () => {
+        expect(await readTextPrefix(streamOf(encoder.encode(VCF)), 100)).toBe(VCF.slice(0, 100));
+    });
+
+    it('reads the first characters of BGZF input', async () => {
+        const bytes = concat(bgzfBlock(encoder.encode(VCF)), BGZF_EOF);
+        expect(await readTextPrefix(streamOf(bytes), 100)).toBe(VCF.slice(0, 100));
+    });
+
+    it('returns the whole text when it is shorter than the prefix', async () => {
+        expect(await readTextPrefix(streamOf(gzipSync('##fileformat=VCFv4.2\n')), 1000)).toBe('##fileformat=VCFv4.2\n');
+    });
+
+    it('decodes a multi-byte character split across chunks', async () => {
+        expect(await readTextPrefix(streamOf(encoder.encode('##note=µg/L\n'), 9), 11)).toBe('##note=µg/L');
+    });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { calculateAdjustedDose, mostellerBsa } from '@/lib/doseCalculator';
+
+const titration = 'Titrate to response.';
+
+describe('calculateAdjustedDose', () => {
+    it('applies the percentage range to the standard dose', () => {
+        const dose = calculateAdjustedDose('mg', { percentOfStandard: [25, 50], titration }, { standardDose: 300 });
+        expect(dose.adjustedDose).toEqual([75, 150]);
+        expect(dose.adjustedMg).toEqual([75, 150]);
+        expect(dose.cappedAt).toBeNull();
+    });
+
+    it('keeps the standard dose when the guidance has no percentage', () => {
+        const dose = calculateAdjustedDose('mg', { maxDailyDose: { value: 40, unit: 'mg' }, titration }, { standardDose: 20 });
+        expect(dose.percentOfStandard).toEqual([100, 100]);
+        expect(dose.adjustedDose).toEqual([20, 20]);
+        expect(dose.cappedAt).toBeNull();
+    });
+
+    it('limits the range by a maximum in the dose basis', () => {
+        const cap = { value: 1, unit: 'mg/kg' as const };
+        const dose = calculateAdjustedDose('mg/kg', { percentOfStandard: [30, 80], maxDailyDose: cap, titration }, { standardDose: 2.5, weightKg: 70 });
+        expect(dose.adjustedDose).toEqual([0.75, 1]);
+        expect(dose.adjustedMg).toEqual([52.5, 70]);
+        expect(dose.cappedAt).toEqual(cap);
+    });
+
+    it('converts a maximum in mg through the body size', () => {
+        const cap = { value: 500, unit: 'mg' as const };
+        const dose = calculateAdjustedDose('mg/m2', { percentOfStandard: [100, 100], maxDailyDose: cap, titration }, { standardDose: 400, bsaM2: 1.5 });
+        expect(dose.adjustedDose).toEqual([333.33, 333.33]);
+        expect(dose.adjustedMg).toEqual([500, 500]);
+        expect(dose.cappedAt).toEqual(cap);
+    });
+
+    it('cannot check a maximum in mg without the body size', () => {
+        const dose = calculateAdjustedDose('mg/m2', { percentOfStandard: [50, 50], maxDailyDose: { value: 500, unit: 'mg' }, titration }, { standardDose: 400 });
+        expect(dose.adjustedDose).toEqual([200, 200]);
+        expect(dose.adjustedMg).toBeNull();
+        expect(dose.cappedAt).toBeNull();
+        expect(dose.notes).toContain('The 500 mg/day maximum could not be checked without the patient\'s body size.');
+    });
+
+    it('leaves mg unconverted without the weight for mg/kg drugs', () => {
+        const dose = calculateAdjustedDose('mg/kg', { percentOfStandard: [10, 10], titration }, { standardDose: 2.5, heightCm: 170 });
+        expect(dose.adjustedDose).toEqual([0.25, 0.25]);
+        expect(dose.adjustedMg).toBeNull();
+        expect(dose.notes).toContain('Supply weight to convert the mg/kg dose to mg.');
+    });
+
+    it('leaves mg unconverted without the BSA for mg/m2 drugs', () => {
+        const dose = calculateAdjustedDose('mg/m2', { percentOfStandard: [50, 50], titration }, { standardDose: 400, weightKg: 70 });
+        expect(dose.bsaM2).toBeNull();
+        expect(dose.adjustedMg).toBeNull();
+        expect(dose.notes).toContain('Supply BSA, or height and weight, to convert the mg/m2 dose to mg.');
+    });
+
+    it('estimates the BSA with Mosteller from height and weight', () => {
+        expect(mostellerBsa(180, 80)).toBe(2);
+        const dose = calculateAdjustedDose('mg/m2', { percentOfStandard: [50, 50], titration }, { standardDose: 400, heightCm: 170, weightKg: 65 });
+        expect(dose.bsaSource).toBe('mosteller');
+        expect(dose.bsaM2).toBe(1.75); // sqrt(170 * 65 / 3600) = 1.752
+        expect(dose.adjustedMg).toEqual([350, 350]);
+    });
+
+    it('prefers a supplied BSA over the Mosteller estimate', () => {
+        const dose = calculateAdjustedDose('mg/m2', { percentOfStandard: [50, 50], titration }, { standardDose: 400, heightCm: 180, weightKg: 80, bsaM2: 1.8 });
+        expect(dose.bsaSource).toBe('supplied');
+        expect(dose.bsaM2).toBe(1.8);
+        expect(dose.adjustedMg).toEqual([360, 360]);
+    });
+});
@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { suggestDrugNames } from '@/lib/drugNames';
+
+describe('suggestDrugNames', () => {
+    it.each([
+        ['codiene', 'CODEINE'],
+        ['plavics', 'Plavix'],
+        ['warfrin', 'WARFARIN'],
+        ['simvastain', 'SIMVASTATIN']
+    ])('suggests a name for the misspelling %s', (input, expected) => {
+        expect(suggestDrugNames(input)).toContain(expected);
+    });
+
+    it('does not suggest names for unrelated input', () => {
+        expect(suggestDrugNames('xyzzy')).toEqual([]);
+    });
+});
@@ -0,0 +1,120 @@
+/**
+ * Golden-file regression suite. Every VCF and raw-array export in ./fixtures is
+ * stream-parsed with the options /api/analyze uses, profiled on the detected build
+ * and evaluated against each drug whose guideline reads a gene the fixture covers;
+ * request inputs (patient context, co-medications, typed HLA-B, sample) come from
+ * "##fixture_context=<field>=<value>" header lines named like the /api/analyze
+ * fields. The result and the parser's validation report are diffed against
+ * ./snapshots/<fixture>.json. A change to the parser or the rules engine that
+ * alters a clinical call fails here until the snapshot is reviewed and
+ * regenerated with `npm run test:update`.
+ */
+
+import { readdirSync, readFileSync } from 'node:fs';
+import path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { decompressIfGzipped } from '@/lib/compression';
+import { parseGenotypeStream } from '@/lib/rawGenotypeParser';
+import { ParsedVCF } from '@/lib/vcfParser';
+import { normalizeDrugName, resolveDrugName } from '@/lib/drugNames';
+import { parseHlaTyping } from '@/lib/hla';
+import { PatientContext } from '@/lib/patientContext';
+import { phenoconvertProfile } from '@/lib/phenoconversion';
+import { DrugRiskAssessment, PatientProfile, evaluateDrugRisk, generatePharmacogenomicProfile, isTargetedLocus, overlapsTargetedLocus, targetAlleles } from '@/lib/pgxRulesBase';
+import { KNOWLEDGE_BASE } from '@/lib/knowledgeBase';
+
+const FIXTURES = path.join(__dirname, 'fixtures');
+const SNAPSHOTS = path.join(__dirname, 'snapshots');
+
+interface GoldenResult extends Pick<ParsedVCF, 'format' | 'build' | 'buildSource' | 'validation'> {
+    fixture: string; // The fixture's ##fixture (or "# fixture=") description
+    inputs: FixtureInputs;
+    profile: PatientProfile; // Covered genes only; the rest are uncalled in every fixture
+    assessments: Record<string, DrugRiskAssessment>;
+}
+
+interface FixtureInputs {
+    context: PatientContext;
+    medications: string[]; // Canonical ingredient names, as /api/analyze reads them
+    hlaTyping?: [string, string];
+    sample?: string;
+}
+
+// Request inputs from "##fixture_context=<field>=<value>" lines; the fields and their parsing follow /api/analyze
+function readFixtureInputs(text: string): FixtureInputs {
+    const fields = new Map([...text.matchAll(/^##fixture_context=([^=\n]+)=(.*)$/gm)].map(([, name, value]) => [name.trim(), value.trim()]));
+    const known = ['age', 'sex', 'weight_kg', 'pregnant', 'lactating', 'egfr', 'medications', 'hla_b', 'sample'];
+    const unknown = [...fields.keys()].filter(name => !known.includes(name));
+    if (unknown.length > 0) throw new Error(`Unknown fixture_context field(s): ${unknown.join(', ')}`);
+
+    const number = (name: string) => fields.has(name) ? Number(fields.get(name)) : undefined;
+    const flag = (name: string) => fields.has(name) ? ['true', '1', 'yes'].includes(fields.get(name)!.toLowerCase()) : undefined;
+    const context: PatientContext = {
+        ageYears: number('age'),
+        sex: fields.get('sex')?.toLowerCase() as PatientContext['sex'],
+        weightKg: number('weight_kg'),
+        pregnant: flag('pregnant'),
+        lactating: flag('lactating'),
+        egfr: number('egfr')
+    };
+    const medications = [...new Set((fields.get('medications') ?? '').split(',').filter(m => m.trim() !== '').flatMap(m => {
+        const resolution = resolveDrugName(m);
+        return resolution.ingredients.length > 0 ? resolution.ingredients : [normalizeDrugName(m)];
+    }))];
+    const hla = fields.get('hla_b');
+    const hlaTyping = hla ? parseHlaTyping(hla) ?? undefined : undefined;
+    if (hla && !hlaTyping) throw new Error(`Invalid fixture_context hla_b: ${hla}`);
+    return { context, medications, hlaTyping, sample: fields.get('sample') };
+}
+
+// Genes with at least one record in the fixture (matched by rsID or coordinates), a copy number call or a typed HLA allele
+function coveredGenes(profile: PatientProfile): string[] {
+    return Object.entries(profile.genes)
+        .filter(([, result]) => result.copyNumber !== undefined || result.source === 'typed' || (result.calls ?? []).some(call => call.matchedBy !== null))
+        .map(([gene]) => gene);
+}
+
+async function runFixture(text: string): Promise<GoldenResult> {
+    // Same input path and parse options as /api/analyze
+    const parsed = await parseGenotypeStream(decompressIfGzipped(new Response(text).body!), {
+        includeRecord: isTargetedLocus,
+        includeRange: overlapsTargetedLocus,
+        resolveAlleles: targetAlleles
+    });
+    const inputs = readFixtureInputs(text);
+    const sampleIndex = inputs.sample === undefined ? 0 : parsed.samples.indexOf(inputs.sample);
+    if (sampleIndex < 0) throw new Error(`Unknown fixture_context sample: ${inputs.sample}`);
+    const profile = generatePharmacogenomicProfile(parsed.variants, { sampleIndex, build: parsed.build, hlaTyping: inputs.hlaTyping });
+    const genes = coveredGenes(profile);
+    const drugs = Object.entries(KNOWLEDGE_BASE.drugs)
+        .filter(([, guideline]) => guideline.genes.some(gene => genes.includes(gene)))
+        .map(([drug]) => drug);
+    return {
+        fixture: /^#+ ?fixture=(.*)$/m.exec(text)?.[1] ?? '',
+        inputs,
+        format: parsed.format,
+        build: parsed.build,
+        buildSource: parsed.buildSource,
+        validation: parsed.validation,
+        profile: { ...profile, genes: Object.fromEntries(genes.map(gene => [gene, profile.genes[gene]])) },
+        // Like /api/analyze, each drug sees the profile its co-medications (other than itself) leave
+        assessments: Object.fromEntries(drugs.map(drug => [
+            drug,
+            evaluateDrugRisk(drug, phenoconvertProfile(profile, inputs.medications.filter(m => m !== drug)).profile, inputs.context)
+        ]))
+    };
+}
+
+const fixtures = readdirSync(FIXTURES).filter(file => /\.(vcf|txt)$/.test(file)).sort();
+
+describe('golden fixtures', () => {
+    it('has fixtures to check', () => {
+        expect(fixtures.length).toBeGreaterThan(0);
+    });
+
+    it.each(fixtures)('%s matches its snapshot', async file => {
+        const result = await runFixture(readFileSync(path.join(FIXTURES, file), 'utf8'));
+        expect(Object.keys(result.assessments).length).toBeGreaterThan(0);
+        await expect(`${JSON.stringify(result, null, 4)}\n`).toMatchFileSnapshot(path.join(SNAPSHOTS, file.replace(/\.(vcf|txt)$/, '.json')));
+    });
+});
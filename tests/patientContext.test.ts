@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { KNOWLEDGE_BASE, validateKnowledgeBase } from '@/lib/knowledgeBase';
+import { describeContextCondition, matchesContext } from '@/lib/patientContext';
+import { evaluateDrugRisk } from '@/lib/pgxRulesBase';
+import { profileOf } from './profiles';
+
+const cyp2d6Normal = await profileOf('cyp2d6-normal.vcf');
+const cyp2d6Intermediate = await profileOf('cyp2d6-intermediate.vcf');
+const cyp2d6Poor = await profileOf('cyp2d6-poor.vcf');
+
+describe('matchesContext', () => {
+    it('holds below an age limit and not at it', () => {
+        expect(matchesContext({ ageBelow: 12 }, { ageYears: 11.9 })).toBe(true);
+        expect(matchesContext({ ageBelow: 12 }, { ageYears: 12 })).toBe(false);
+        expect(matchesContext({ ageAbove: 60 }, { ageYears: 60 })).toBe(false);
+        expect(matchesContext({ ageAbove: 60 }, { ageYears: 61 })).toBe(true);
+    });
+
+    it('does not hold on a value the context does not give', () => {
+        expect(matchesContext({ ageBelow: 12 }, {})).toBe(false);
+        expect(matchesContext({ egfrBelow: 30 }, { ageYears: 40 })).toBe(false);
+        expect(matchesContext({ pregnant: true }, { sex: 'female' })).toBe(false);
+        expect(matchesContext({ sex: 'female' }, {})).toBe(false);
+    });
+
+    it('requires every condition to hold', () => {
+        const condition = { sex: 'female' as const, lactating: true, egfrBelow: 30 };
+        expect(matchesContext(condition, { sex: 'female', lactating: true, egfr: 25 })).toBe(true);
+        expect(matchesContext(condition, { sex: 'female', lactating: true, egfr: 30 })).toBe(false);
+        expect(matchesContext(condition, { sex: 'female', lactating: false, egfr: 25 })).toBe(false);
+    });
+
+    it('describes a condition', () => {
+        expect(describeContextCondition({ ageBelow: 12, lactating: true })).toBe('age under 12 years, breastfeeding');
+    });
+});
+
+describe('context rules in evaluateDrugRisk', () => {
+    it('raises a Safe genetic risk and drops its standard-dosing advice', () => {
+        const assessment = evaluateDrugRisk('CODEINE', cyp2d6Normal, { ageYears: 8 });
+        expect(assessment.geneticRisk).toBe('Safe');
+        expect(assessment.risk).toBe('Toxic');
+        expect(assessment.contextFlags.map(f => [f.condition, f.risk])).toEqual([['age under 12 years', 'Toxic'], ['age under 18 years', null]]);
+        expect(assessment.recommendation).not.toContain('standard dosing');
+    });
+
+    it('takes the context risk when it is more severe than the genetic one', () => {
+        const assessment = evaluateDrugRisk('CODEINE', cyp2d6Intermediate, { ageYears: 8 });
+        expect(assessment.geneticRisk).toBe('Adjust Dosage');
+        expect(assessment.risk).toBe('Toxic');
+    });
+
+    it('keeps the genetic risk when it is more severe than the context one', () => {
+        const assessment = evaluateDrugRisk('TRAMADOL', cyp2d6Poor, { egfr: 25 });
+        expect(assessment.contextFlags.map(f => f.risk)).toEqual(['Adjust Dosage']);
+        expect(assessment.geneticRisk).toBe('Toxic');
+        expect(assessment.risk).toBe('Toxic');
+    });
+
+    it('applies every matching rule and takes the most severe risk', () => {
+        const assessment = evaluateDrugRisk('TRAMADOL', cyp2d6Normal, { ageYears: 30, sex: 'female', lactating: true, egfr: 25 });
+        expect(assessment.contextFlags.map(f => f.risk)).toEqual(['Toxic', 'Adjust Dosage']);
+        expect(assessment.risk).toBe('Toxic');
+    });
+
+    it('adds an advisory without raising the risk', () => {
+        const assessment = evaluateDrugRisk('CODEINE', cyp2d6Normal, { ageYears: 15 });
+        expect(assessment.risk).toBe('Safe');
+        expect(assessment.contextFlags).toMatchObject([{ condition: 'age under 18 years', risk: null }]);
+        expect(assessment.recommendation).toContain('tonsillectomy');
+        expect(assessment.recommendation).toContain('Safe to use standard dosing.');
+    });
+
+    it('leaves the genetic risk of an adolescent as it is', () => {
+        expect(evaluateDrugRisk('CODEINE', cyp2d6Intermediate, { ageYears: 15 }).risk).toBe('Adjust Dosage');
+        expect(evaluateDrugRisk('TRAMADOL', cyp2d6Poor, { ageYears: 15 }).risk).toBe('Toxic');
+    });
+
+    it('applies no rule without a context', () => {
+        const assessment = evaluateDrugRisk('CODEINE', cyp2d6Normal);
+        expect(assessment.contextFlags).toEqual([]);
+        expect(assessment.risk).toBe('Safe');
+    });
+});
+
+describe('context rule validation', () => {
+    function withCodeineContextRule(rule: object): unknown {
+        const data = structuredClone(KNOWLEDGE_BASE);
+        data.drugs.CODEINE.contextRules = [rule as never];
+        return data;
+    }
+    const base = { context: { ageBelow: 18 }, recommendation: 'Advisory.', sources: ['FDA-DSC-CODEINE-TRAMADOL-2017'] };
+
+    it('accepts an advisory without a risk', () => {
+        expect(validateKnowledgeBase(withCodeineContextRule(base))).toEqual([]);
+    });
+
+    it('rejects a Safe context rule', () => {
+        expect(validateKnowledgeBase(withCodeineContextRule({ ...base, risk: 'Safe' }))).toEqual([
+            expect.stringContaining('drugs.CODEINE.contextRules[0].risk: context rules can only raise the risk')
+        ]);
+    });
+
+    it('rejects alternatives on an advisory', () => {
+        expect(validateKnowledgeBase(withCodeineContextRule({ ...base, alternatives: [{ drug: 'MORPHINE', reason: 'Not a prodrug.' }] }))).toEqual([
+            expect.stringContaining('drugs.CODEINE.contextRules[0].alternatives: advisories')
+        ]);
+    });
+});
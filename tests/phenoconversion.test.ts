@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { findPerpetrators, phenoconvertProfile } from '@/lib/phenoconversion';
+import { evaluateDrugRisk } from '@/lib/pgxRulesBase';
+import { profileOf } from './profiles';
+
+const cyp2d6Normal = await profileOf('cyp2d6-normal.vcf'); // *1/*1, activity score 2
+const cyp2c19Normal = await profileOf('cyp2c19-normal.vcf');
+const cyp2c19Poor = await profileOf('cyp2c19-poor.vcf'); // No CYP2D6 records: CYP2D6 is Indeterminate
+
+function convert(profile: typeof cyp2d6Normal, medications: string[], gene: string) {
+    const { profile: effective, conversions } = phenoconvertProfile(profile, medications);
+    return { effective: effective.genes[gene], conversion: conversions.find(c => c.gene === gene) };
+}
+
+describe('findPerpetrators', () => {
+    it('lists the co-medications acting on each enzyme', () => {
+        expect(findPerpetrators([' fluoxetine ', 'SERTRALINE'])).toEqual({
+            CYP2D6: [{ drug: 'FLUOXETINE', effect: 'inhibitor', strength: 'strong' }],
+            CYP2C19: [{ drug: 'FLUOXETINE', effect: 'inhibitor', strength: 'strong' }]
+        });
+    });
+});
+
+describe('phenoconvertProfile', () => {
+    it('turns a strong inhibitor into a poor metabolizer with activity score 0', () => {
+        const { effective, conversion } = convert(cyp2d6Normal, ['PAROXETINE'], 'CYP2D6');
+        expect(effective.phenotype).toBe('Poor Metabolizer');
+        expect(effective.activityScore).toBe(0);
+        expect(conversion).toMatchObject({ genotypicPhenotype: 'Normal Metabolizer', genotypicActivityScore: 2, applied: { drug: 'PAROXETINE' } });
+    });
+
+    it('halves the activity score under a moderate inhibitor', () => {
+        const { effective } = convert(cyp2d6Normal, ['DULOXETINE'], 'CYP2D6');
+        expect(effective.activityScore).toBe(1);
+        expect(effective.phenotype).toBe('Intermediate Metabolizer');
+    });
+
+    it('moves genes without activity scores one phenotype down under a moderate inhibitor', () => {
+        expect(convert(cyp2c19Normal, ['OMEPRAZOLE'], 'CYP2C19').effective.phenotype).toBe('Intermediate Metabolizer');
+    });
+
+    it('raises the phenotype one step per moderate and two per strong inducer', () => {
+        expect(convert(cyp2c19Normal, ['EFAVIRENZ'], 'CYP2C19').effective.phenotype).toBe('Rapid Metabolizer');
+        expect(convert(cyp2c19Normal, ['RIFAMPIN'], 'CYP2C19').effective.phenotype).toBe('Ultrarapid Metabolizer');
+    });
+
+    it('does not induce a poor metabolizer', () => {
+        const { effective, conversion } = convert(cyp2c19Poor, ['RIFAMPIN'], 'CYP2C19');
+        expect(effective.phenotype).toBe('Poor Metabolizer');
+        expect(conversion?.applied).toBeNull();
+    });
+
+    it('lets an inhibitor take precedence over an inducer', () => {
+        const { conversion } = convert(cyp2c19Normal, ['RIFAMPIN', 'FLUCONAZOLE'], 'CYP2C19');
+        expect(conversion?.phenotype).toBe('Poor Metabolizer');
+        expect(conversion?.applied?.drug).toBe('FLUCONAZOLE');
+        expect(conversion?.perpetrators.map(p => p.drug)).toEqual(['RIFAMPIN', 'FLUCONAZOLE']);
+    });
+
+    it('returns the profile unchanged when no co-medication applies', () => {
+        const result = phenoconvertProfile(cyp2c19Poor, ['RIFAMPIN', 'SERTRALINE']);
+        expect(result.profile).toBe(cyp2c19Poor);
+    });
+
+    describe('with an indeterminate genotype', () => {
+        it('keeps it indeterminate under a moderate inhibitor', () => {
+            const { effective, conversion } = convert(cyp2c19Poor, ['DULOXETINE'], 'CYP2D6');
+            expect(effective.phenotype).toBe('Indeterminate');
+            expect(conversion?.applied).toBeNull();
+        });
+
+        it('reports a poor metabolizer under a strong inhibitor, whatever the genotype', () => {
+            const { effective, conversion } = convert(cyp2c19Poor, ['PAROXETINE'], 'CYP2D6');
+            expect(effective.phenotype).toBe('Poor Metabolizer');
+            expect(conversion?.genotypicPhenotype).toBe('Indeterminate');
+            // So codeine, which needs CYP2D6 activation, is reported ineffective
+            const { profile } = phenoconvertProfile(cyp2c19Poor, ['PAROXETINE']);
+            const codeine = evaluateDrugRisk('CODEINE', profile);
+            expect(codeine.risk).toBe('Toxic');
+            expect(codeine.recommendation).toContain('lack of efficacy');
+        });
+    });
+});
@@ -0,0 +1,21 @@
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { parseVCFStream } from '@/lib/vcfParser';
+import { PatientProfile, generatePharmacogenomicProfile, isTargetedLocus } from '@/lib/pgxRulesBase';
+
+/**
+ * Profile of a golden fixture VCF, with the GT of the given rsIDs replaced.
+ */
+export async function profileOf(fixture: string, calls: Record<string, string> = {}): Promise<PatientProfile> {
+    const text = readFileSync(path.join(__dirname, 'golden/fixtures', fixture), 'utf8')
+        .split('\n')
+        .map(line => {
+            const fields = line.split('\t');
+            if (!(fields[2] in calls)) return line;
+            fields[9] = fields[9].replace(/^[^:]+/, calls[fields[2]]);
+            return fields.join('\t');
+        })
+        .join('\n');
+    const parsed = await parseVCFStream(new Response(text).body!, { includeRecord: isTargetedLocus });
+    return generatePharmacogenomicProfile(parsed.variants, { build: parsed.build });
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { parseGenotypeStream } from '@/lib/rawGenotypeParser';
+import { parseVCFLines } from '@/lib/vcfParser';
+
+const resolveAlleles = () => ({ ref: 'G', alt: 'A' });
+
+async function* linesOf(text: string) {
+    yield* text.split('\n');
+}
+
+describe('trailing empty columns', () => {
+    it('parses an empty 23andMe genotype as a no-call', async () => {
+        const text = '# rsid\tchromosome\tposition\tgenotype\r\nrs4244285\t10\t94781859\t\r\n';
+        const parsed = await parseGenotypeStream(new Response(text).body!, { resolveAlleles });
+        expect(parsed.format).toBe('23andme');
+        expect(parsed.validation.counts).not.toHaveProperty('COLUMN_COUNT_MISMATCH');
+        expect(parsed.variants).toHaveLength(1);
+        expect(parsed.variants[0].genotypes[0].alleles).toEqual([null, null]);
+    });
+
+    it('parses an empty AncestryDNA second allele as a no-call', async () => {
+        const text = 'rsid\tchromosome\tposition\tallele1\tallele2\nrs4244285\t10\t94781859\tA\t\n';
+        const parsed = await parseGenotypeStream(new Response(text).body!, { resolveAlleles });
+        expect(parsed.format).toBe('ancestrydna');
+        expect(parsed.variants[0].genotypes[0].alleles).toEqual([null, null]);
+    });
+
+    it('keeps an empty trailing VCF sample column', async () => {
+        const text = [
+            '##fileformat=VCFv4.2',
+            '#CHROM\tPOS\tID\tREF\tALT\tQUAL\tFILTER\tINFO\tFORMAT\tS1\tS2',
+            'chr10\t94781859\trs4244285\tG\tA\t.\tPASS\t.\tGT\t0/1\t'
+        ].join('\n');
+        const parsed = await parseVCFLines(linesOf(text));
+        expect(parsed.validation.counts).not.toHaveProperty('COLUMN_COUNT_MISMATCH');
+        expect(parsed.variants).toHaveLength(1);
+    });
+});
@@ -0,0 +1,81 @@
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { parseVCFStream } from '@/lib/vcfParser';
+import { evaluateDrugRisk, generatePharmacogenomicProfile, isTargetedLocus } from '@/lib/pgxRulesBase';
+import { KNOWLEDGE_BASE, KnowledgeBase } from '@/lib/knowledgeBase';
+import { SavedReport, assessReportImpact, readSavedReport } from '@/lib/reportImpact';
+
+const parsed = await parseVCFStream(new Response(readFileSync(path.join(__dirname, 'golden/fixtures/cyp2c19-poor.vcf'))).body!, { includeRecord: isTargetedLocus });
+const profile = generatePharmacogenomicProfile(parsed.variants, { build: parsed.build });
+
+// A report as the dashboard saves it, issued under the given knowledge base
+function savedReport(drugs: string[], knowledgeBase: KnowledgeBase = KNOWLEDGE_BASE) {
+    const results = drugs.map(drug => {
+        const assessment = evaluateDrugRisk(drug, profile, {}, knowledgeBase);
+        return {
+            patient_id: 'PATIENT_TEST',
+            drug,
+            risk_assessment: { risk_label: assessment.risk, evidence_strength: assessment.evidenceStrength },
+            clinical_recommendation: { guideline_recommendation: assessment.recommendation },
+            pharmacogenomic_profile: { phenoconversion: [] }
+        };
+    });
+    return {
+        results,
+        samples: [{ sample_id: 'S1', profile, results }],
+        patient_context: { age_years: null, sex: null, weight_kg: null, pregnant: null, lactating: null, egfr: null },
+        medications: [],
+        knowledge_base: { version: knowledgeBase.version, updated: knowledgeBase.updated }
+    };
+}
+
+function read(data: unknown): SavedReport {
+    const report = readSavedReport(data);
+    if (typeof report === 'string') throw new Error(report);
+    return report;
+}
+
+describe('assessReportImpact', () => {
+    it('finds no changes when the rules are unchanged', () => {
+        const impact = assessReportImpact(read(savedReport(['CLOPIDOGREL', 'OMEPRAZOLE'])));
+        expect(impact.samples[0].drugs.every(d => d.changed.length === 0)).toBe(true);
+        expect(impact.samples[0].actionableChanges).toBe(0);
+        expect(impact.notes).toEqual([]);
+    });
+
+    it('reports a revised rule as an actionable change', () => {
+        const revised: KnowledgeBase = structuredClone(KNOWLEDGE_BASE);
+        revised.version = 'revised';
+        revised.drugs.CLOPIDOGREL.rules[0] = { ...revised.drugs.CLOPIDOGREL.rules[0], risk: 'Adjust Dosage', recommendation: 'Revised advice.' };
+        const impact = assessReportImpact(read(savedReport(['CLOPIDOGREL', 'OMEPRAZOLE'])), revised);
+        const [clopidogrel, omeprazole] = impact.samples[0].drugs;
+        expect(clopidogrel).toMatchObject({ changed: ['risk', 'recommendation'], actionable: true, previous: { risk: 'Toxic' }, current: { risk: 'Adjust Dosage' } });
+        expect(omeprazole.changed).toEqual([]);
+        expect(impact).toMatchObject({ previousVersion: KNOWLEDGE_BASE.version, currentVersion: 'revised' });
+        expect(impact.samples[0]).toMatchObject({ patientId: 'PATIENT_TEST', sampleId: 'S1', actionableChanges: 1 });
+    });
+
+    it('does not count an evidence-only change as actionable', () => {
+        const revised: KnowledgeBase = structuredClone(KNOWLEDGE_BASE);
+        revised.drugs.CLOPIDOGREL.rules[0] = { ...revised.drugs.CLOPIDOGREL.rules[0], classification: 'moderate' };
+        const [clopidogrel] = assessReportImpact(read(savedReport(['CLOPIDOGREL'])), revised).samples[0].drugs;
+        expect(clopidogrel).toMatchObject({ changed: ['evidence'], actionable: false });
+    });
+
+    it('skips fields an older report did not save', () => {
+        const report = savedReport(['CLOPIDOGREL']);
+        const legacy = {
+            samples: [{ sample_id: null, profile, results: report.results.map(r => ({ ...r, clinical_recommendation: {} })) }]
+        };
+        const impact = assessReportImpact(read(legacy));
+        expect(impact.samples[0].drugs[0].changed).toEqual([]);
+        expect(impact.previousVersion).toBeNull();
+        expect(impact.notes).toHaveLength(3);
+    });
+
+    it('rejects a report without a saved profile', () => {
+        expect(readSavedReport({ results: [] })).toMatch(/samples/);
+        expect(readSavedReport({ samples: [{ results: [] }] })).toMatch(/profile/);
+    });
+});
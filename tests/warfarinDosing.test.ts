@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { WarfarinCovariates, estimateWarfarinDose } from '@/lib/warfarinDosing';
+import { profileOf } from './profiles';
+
+const PATIENT: WarfarinCovariates = { ageYears: 65, heightCm: 170, weightKg: 70, ancestry: 'White', medications: [] };
+
+// CYP2C9 *1/*1, VKORC1 G/G, CYP4F2 *1/*1
+const reference = await profileOf('cyp2c9-normal.vcf');
+
+describe('estimateWarfarinDose', () => {
+    it('matches a worked IWPC example', async () => {
+        // 65-year-old White patient, 170 cm, 70 kg, VKORC1 A/G, CYP2C9 *1/*3, no interacting drugs:
+        // sqrt(weekly dose) = 5.6044 - 0.2614 * 6 + 0.0087 * 170 + 0.0128 * 70 - 0.8677 - 0.9357 = 4.6076
+        const profile = await profileOf('cyp2c9-normal.vcf', { rs9923231: '0/1', rs1057910: '0/1' });
+        const estimate = estimateWarfarinDose(profile, PATIENT);
+        expect(estimate.genotypes).toEqual({ CYP2C9: '*1/*3', VKORC1: 'A/G', CYP4F2: '*1/*1' });
+        expect(estimate.weeklyDoseMg).toBe(21.2);
+        expect(estimate.dailyDoseMg).toBe(3);
+        expect(estimate.drivingGenes).toEqual(['VKORC1', 'CYP2C9']);
+    });
+
+    it('gives the reference genotype no genetic adjustment', () => {
+        const estimate = estimateWarfarinDose(reference, PATIENT);
+        expect(estimate.weeklyDoseMg).toBe(41.1);
+        expect(estimate.drivingGenes).toEqual([]);
+        expect(estimate.notes).toEqual([]);
+    });
+
+    it('counts age in completed decades, up to 9', () => {
+        const weekly = (ageYears: number) => estimateWarfarinDose(reference, { ...PATIENT, ageYears }).weeklyDoseMg;
+        expect(weekly(69)).toBe(41.1);
+        expect(weekly(70)).toBe(37.8);
+        expect(weekly(90)).toBe(31.7);
+        expect(weekly(100)).toBe(31.7);
+    });
+
+    it('uses the mixed/missing ancestry term when ancestry is omitted', () => {
+        expect(estimateWarfarinDose(reference, { ...PATIENT, ancestry: undefined }).weeklyDoseMg).toBe(39.8);
+    });
+
+    it('uses the unknown-genotype terms for genes that were not called', async () => {
+        const estimate = estimateWarfarinDose(await profileOf('cyp2c19-poor.vcf'), PATIENT);
+        expect(estimate.genotypes).toEqual({ CYP2C9: null, VKORC1: null, CYP4F2: null });
+        expect(estimate.weeklyDoseMg).toBe(32.6);
+        expect(estimate.notes).toHaveLength(3);
+    });
+
+    it('adds 5% per CYP4F2*3 allele', async () => {
+        const estimate = estimateWarfarinDose(await profileOf('cyp4f2-poor.vcf'), PATIENT);
+        expect(estimate.weeklyDoseMg).toBe(45.2);
+        expect(estimate.drivingGenes).toEqual(['CYP4F2']);
+        expect(estimate.notes).toContain('Dose increased 10% for 2 CYP4F2*3 allele(s).');
+    });
+
+    it('does not apply the CYP4F2 increase for African ancestry', async () => {
+        const estimate = estimateWarfarinDose(await profileOf('cyp4f2-poor.vcf'), { ...PATIENT, ancestry: 'Black or African American' });
+        expect(estimate.weeklyDoseMg).toBe(37.6);
+        expect(estimate.drivingGenes).toEqual([]);
+        expect(estimate.notes).toContain('CYP4F2*3 adjustment is not recommended for patients of African ancestry and was not applied.');
+    });
+
+    it('lowers the dose for amiodarone and raises it for enzyme inducers', () => {
+        const withMedications = (medications: string[]) => estimateWarfarinDose(reference, { ...PATIENT, medications });
+        expect(withMedications(['AMIODARONE']).weeklyDoseMg).toBe(34.3);
+        expect(withMedications([' rifampin ']).weeklyDoseMg).toBe(57.6);
+        const both = withMedications(['AMIODARONE', 'CARBAMAZEPINE', 'PHENYTOIN', 'SERTRALINE']);
+        // Several inducers count once
+        expect(both.weeklyDoseMg).toBe(49.6);
+        expect(both.interactingMedications).toEqual(['AMIODARONE', 'CARBAMAZEPINE', 'PHENYTOIN']);
+    });
+});